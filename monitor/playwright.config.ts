@@ -8,6 +8,14 @@ import dotenv from 'dotenv';
  */
 dotenv.config({ path: path.resolve(__dirname, '.env') });
 
+/**
+ * Run the browser without window (PLAYWRIGHT_HEADLESS=true), e.g. on a server; a maximized window otherwise
+ */
+const headless = process.env.PLAYWRIGHT_HEADLESS === 'true';
+const browserOptions = headless
+  ? { headless: true, viewport: { width: 1920, height: 1080 } }
+  : { headless: false, viewport: null, launchOptions: { args: ['--start-maximized'] } };
+
 /**
  * See https://playwright.dev/docs/test-configuration.
  */
@@ -27,11 +35,7 @@ export default defineConfig({
   reporter: 'html',
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
-    headless: false,
-    launchOptions: {
-      args: ['--start-maximized'], // ensures OS-level window is maximized
-    },
-    viewport: null,
+    ...browserOptions,
 
     /* Base URL to use in actions like `await page.goto('/')`. */
     baseURL: process.env.GRAYLOG_URL || 'https://gray.prod.bjsrestaurants.com',
@@ -48,21 +52,15 @@ export default defineConfig({
   projects: [
     {
       name: 'chromium',
-      use: {
-        headless: false,
-        viewport: null, // critical
-        launchOptions: {
-          args: ['--start-maximized'], // ensures OS-level window is maximized
-        },
-      },
+      use: browserOptions,
     },
   ],
 
-  /* Run your local dev server before starting the tests */
-  // webServer: {
-  //   command: 'npm run start',
-  //   url: 'http://127.0.0.1:3000',
-  //   reuseExistingServer: !process.env.CI,
-  // },
+  /* Start the mock Graylog before the tests when running offline (npm run test:mock) */
+  webServer: process.env.GRAYLOG_MOCK === 'true' ? {
+    command: 'npm run mock:graylog',
+    url: `http://127.0.0.1:${process.env.GRAYLOG_MOCK_PORT || '9900'}/`,
+    reuseExistingServer: true,
+  } : undefined,
 });
 
@@ -1,11 +1,31 @@
 /**
  * Configuration file for environment variables
  */
+
+/**
+ * Parse a number setting, falling back to its default when the value is not a number or below the minimum
+ * @param name Environment variable name
+ * @param fallback Default value
+ * @param min Smallest accepted value (default: 1)
+ * @returns Parsed value or the default
+ */
+function parseIntSetting(name: string, fallback: number, min: number = 1): number {
+  const value = process.env[name];
+  const parsed = parseInt(value || '', 10);
+  if (!Number.isFinite(parsed) || parsed < min) {
+    if (value) console.warn(`Invalid ${name}="${value}", using the default ${fallback}`);
+    return fallback;
+  }
+  return parsed;
+}
+
 export const config = {
   graylogWebUrl: process.env.GRAYLOG_WEB_URL || 'https://gray.prod.bjsrestaurants.com',
   graylogApiUrl: process.env.GRAYLOG_API_URL || 'https://gray.prod.bjsrestaurants.com/api',
   graylogUsername: process.env.GRAYLOG_USERNAME || '',
   graylogPassword: process.env.GRAYLOG_PASSWORD || '',
+  graylogAuthMode: process.env.GRAYLOG_AUTH_MODE || 'basic',
+  graylogAccessToken: process.env.GRAYLOG_ACCESS_TOKEN || '',
   graylogEapiStream: process.env.GRAYLOG_EAPI_STREAM || '',
   graylogUserFlowStream: process.env.GRAYLOG_USER_FLOW_STREAM || '',
   graylogSearchViewId: process.env.GRAYLOG_SEARCH_VIEW_ID || '',
@@ -17,6 +37,25 @@ export const config = {
   graylogFailedOrderSearchView: process.env.GRAYLOG_FAILED_ORDER_SEARCH_VIEW || '',
   graylogQueryFromTime: process.env.GRAYLOG_QUERY_FROM_TIME || '',
   graylogQueryToTime: process.env.GRAYLOG_QUERY_TO_TIME || '',
+  graylogRetryAttempts: parseIntSetting('GRAYLOG_RETRY_ATTEMPTS', 3, 0),
+  graylogRetryBaseDelayMs: parseIntSetting('GRAYLOG_RETRY_BASE_DELAY_MS', 1000),
+  graylogRetryMaxDelayMs: parseIntSetting('GRAYLOG_RETRY_MAX_DELAY_MS', 30000),
+  graylogSearchTimeoutMs: parseIntSetting('GRAYLOG_SEARCH_TIMEOUT_MS', 5 * 60 * 1000),
+  graylogPollIntervalMs: parseIntSetting('GRAYLOG_POLL_INTERVAL_MS', 2000),
+  graylogPivotLimit: parseIntSetting('GRAYLOG_PIVOT_LIMIT', 10000),
+  graylogSplitWindow: process.env.GRAYLOG_SPLIT_WINDOW || '',
+  graylogSplitConcurrency: parseIntSetting('GRAYLOG_SPLIT_CONCURRENCY', 2),
+  graylogQueryConcurrency: parseIntSetting('GRAYLOG_QUERY_CONCURRENCY', 4),
+  playwrightPageConcurrency: parseIntSetting('PLAYWRIGHT_PAGE_CONCURRENCY', 2),
+  reportImages: process.env.REPORT_IMAGES || 'screenshot',
+  intradayEndTime: process.env.INTRADAY_END_TIME || '',
+  rollupEndDate: process.env.ROLLUP_END_DATE || '',
+  rollupWeeks: parseIntSetting('ROLLUP_WEEKS', 4, 0),
+  rollupMonths: parseIntSetting('ROLLUP_MONTHS', 3, 0),
+  graylogRecordMode: process.env.GRAYLOG_RECORD_MODE || 'off',
+  graylogRecordingsDir: process.env.GRAYLOG_RECORDINGS_DIR || 'src/data/recordings',
+  dailyStatsPath: process.env.DAILY_STATS_PATH || 'src/data/daily-stats.json',
+  graylogFieldsSnapshotPath: process.env.GRAYLOG_FIELDS_SNAPSHOT_PATH || 'src/data/graylog-fields.json',
   awsAccessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
   awsSecretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
   awsRegion: process.env.AWS_REGION || 'us-east-1',
@@ -1,365 +1,1653 @@
+import { randomUUID } from 'crypto';
 import { config } from '../config';
+import { GraylogAuth, getGraylogAuth } from './auth';
+import { GraylogQueryError, GraylogResponseError, QuerySyntaxError } from './errors';
+import { formatLintIssues, lintQuery } from './lucene';
+import { GraylogRecorder, denormalizeSearchResult, getGraylogRecorder, normalizeSearchKey, normalizeSearchResult } from './recorder';
+import { GraylogEntity, GraylogResolver, getGraylogResolver } from './resolver';
+import { mapWithConcurrency } from '../utils/utils';
+import {
+  BatchQuery,
+  BatchQueryResult,
+  FailedWindow,
+  FieldType,
+  GraylogRequestOptions,
+  MessagePage,
+  MessageQueryOptions,
+  HistogramBucket,
+  HistogramInterval,
+  PivotGroup,
+  PivotOverflow,
+  PivotQueryOptions,
+  PivotRow,
+  PivotSeries,
+  PivotSeriesType,
+  QueryResult,
+  SearchBody,
+  SearchJob,
+  SearchQueryEntry,
+  SearchTypeResult,
+  SearchTypeSelector,
+  SearchTypeSpec,
+  TimeWindow,
+} from './types';
+import { validateMessagesResult, validatePivotResult, validateSearchCreated, validateSearchJob } from './validation';
+
+/** Series id of the count aggregation */
+const COUNT_SERIES_ID = 'count()';
+
+/** Row group value of the row holding the messages outside the returned buckets */
+export const OTHER_BUCKET = '(other)';
+
+/** Default page size of message list queries */
+const DEFAULT_MESSAGE_LIMIT = 100;
+
+/** Query strings whose lint warnings were already logged */
+const warnedQueries = new Set<string>();
+
+const SERIES_TYPES: PivotSeriesType[] = ['count', 'avg', 'sum', 'min', 'max', 'card', 'percentile'];
+
+/**
+ * Parse a series id such as 'avg(eapi_duration)' or 'percentile(eapi_duration,95)'
+ * @param seriesId The series id
+ * @returns The series definition
+ */
+export function parseSeries(seriesId: string): PivotSeries {
+  const match = seriesId.trim().match(/^(\w+)\(\s*([^,)]*?)\s*(?:,\s*([\d.]+)\s*)?\)$/);
+  if (!match || !SERIES_TYPES.includes(match[1] as PivotSeriesType)) {
+    throw new Error(`Invalid series "${seriesId}". Expected e.g. count(), avg(field), percentile(field,95)`);
+  }
+  const type = match[1] as PivotSeriesType;
+  const field = match[2] || undefined;
+  if (type !== 'count' && !field) {
+    throw new Error(`Series "${seriesId}" requires a field`);
+  }
+  if (type === 'percentile' && !match[3]) {
+    throw new Error(`Series "${seriesId}" requires a percentile rank, e.g. percentile(${field},95)`);
+  }
+  return {
+    type,
+    field,
+    ...(type === 'percentile' && { percentile: Number(match[3]) }),
+  };
+}
+
+/**
+ * Parse a histogram interval such as '15m' or '1h'
+ * @param interval The histogram interval
+ * @returns Interval value and Graylog time unit
+ */
+function parseInterval(interval: HistogramInterval): { value: number; unit: 'minutes' | 'hours' } {
+  const match = interval.match(/^(\d+)([mh])$/);
+  if (!match || Number(match[1]) <= 0) {
+    throw new Error(`Invalid histogram interval "${interval}". Expected e.g. 5m, 15m or 1h`);
+  }
+  return { value: Number(match[1]), unit: match[2] === 'h' ? 'hours' : 'minutes' };
+}
+
+/**
+ * Convert a histogram interval such as '15m' or '1h' to milliseconds
+ * @param interval The histogram interval
+ * @returns Interval length in milliseconds
+ */
+export function intervalToMs(interval: HistogramInterval): number {
+  const { value, unit } = parseInterval(interval);
+  return value * (unit === 'hours' ? 60 : 1) * 60 * 1000;
+}
+
+/**
+ * Split an absolute time range into consecutive windows
+ * Graylog includes both ends of an absolute range, so each window ends 1ms before the next one starts
+ * @param from Start time (ISO string or epoch milliseconds)
+ * @param to End time (ISO string or epoch milliseconds)
+ * @param window Window size, e.g. '1h'
+ * @returns Windows covering the whole range
+ */
+export function splitTimeRange(from: string | number, to: string | number, window: HistogramInterval): TimeWindow[] {
+  const windowMs = intervalToMs(window);
+  const fromMs = new Date(from).getTime();
+  const toMs = new Date(to).getTime();
+  if (Number.isNaN(fromMs) || Number.isNaN(toMs)) {
+    throw new Error(`Invalid time range ${from} - ${to}`);
+  }
+  const windows: TimeWindow[] = [];
+  for (let start = fromMs; start <= toMs; start += windowMs) {
+    windows.push({
+      from: new Date(start).toISOString(),
+      to: new Date(Math.min(start + windowMs - 1, toMs)).toISOString(),
+    });
+  }
+  return windows;
+}
+
+/**
+ * Running value of a series merged across time windows
+ */
+type SeriesAccumulator = { value: number | null; weight: number };
+
+/**
+ * Merge a series value of one time window into the running value
+ * Counts and sums add up, min and max keep the extreme, averages are weighted by the message count.
+ * Cardinality and percentiles cannot be merged and stay null
+ * @param type Series type
+ * @param accumulator Running value
+ * @param value Value of the window
+ * @param weight Message count of the window, used to weight averages
+ */
+function mergeSeriesValue(type: PivotSeriesType, accumulator: SeriesAccumulator, value: number | null, weight: number): void {
+  if (value === null || type === 'card' || type === 'percentile') return;
+  if (accumulator.value === null) {
+    accumulator.value = value;
+  } else if (type === 'min') {
+    accumulator.value = Math.min(accumulator.value, value);
+  } else if (type === 'max') {
+    accumulator.value = Math.max(accumulator.value, value);
+  } else if (type === 'avg') {
+    const totalWeight = accumulator.weight + weight;
+    accumulator.value = totalWeight > 0 ? (accumulator.value * accumulator.weight + value * weight) / totalWeight : accumulator.value;
+  } else {
+    accumulator.value += value;
+  }
+  accumulator.weight += weight;
+}
+
+/**
+ * Describe why a pivot does not cover every matching message
+ * @param overflow Coverage of the pivot rows
+ * @returns Human readable description
+ */
+export function describePivotOverflow(overflow: PivotOverflow): string {
+  const reason = overflow.limitedFields.length > 0 ? ` (bucket limit reached for ${overflow.limitedFields.join(', ')})` : '';
+  return `${overflow.other} of ${overflow.total} messages are outside the returned buckets${reason} and counted as "${OTHER_BUCKET}"`;
+}
+
+/**
+ * Build the Graylog id of a series, e.g. 'avg(eapi_duration)'
+ * @param series The series definition
+ * @returns The series id used as key in pivot rows
+ */
+export function buildSeriesId(series: PivotSeries): string {
+  if (series.type === 'percentile') {
+    return `percentile(${series.field},${series.percentile})`;
+  }
+  return `${series.type}(${series.field ?? ''})`;
+}
 
 /**
  * Simple Graylog API client for querying logs
  */
 export class GraylogApiService {
   private graylogUrl: string;
-  private auth: { username: string; password: string };
+  private auth: GraylogAuth;
+  private resolver: GraylogResolver;
+  private recorder: GraylogRecorder;
 
-  constructor() {
+  /**
+   * @param auth Optional auth, defaults to the shared auth of the configured GRAYLOG_AUTH_MODE
+   * @param resolver Optional stream and view resolver, defaults to the shared resolver
+   * @param recorder Optional recorder, defaults to the shared recorder of the configured GRAYLOG_RECORD_MODE
+   */
+  constructor(auth: GraylogAuth = getGraylogAuth(), resolver?: GraylogResolver, recorder: GraylogRecorder = getGraylogRecorder()) {
     this.graylogUrl = config.graylogApiUrl;
-    this.auth = {
-      username: config.graylogUsername,
-      password: config.graylogPassword,
-    };
+    this.auth = auth;
+    this.resolver = resolver ?? getGraylogResolver(this);
+    this.recorder = recorder;
   }
 
   /**
-   * Make a POST request to Graylog API
+   * Make a request to Graylog API
+   * Transient failures (429, 502, 503, 504 and network errors) are retried with exponential backoff and jitter
+   * In session mode a rejected session (401) is renewed once
+   * @param method HTTP method
+   * @param endpoint Endpoint relative to the API URL
+   * @param body Optional JSON body
+   * @param requestOptions Optional query name and abort signal
    */
-  private async post<T>(endpoint: string, body: any): Promise<T> {
+  private async request<T>(method: string, endpoint: string, body?: any, requestOptions: GraylogRequestOptions = {}): Promise<T> {
     const url = `${this.graylogUrl}${endpoint}`;
-    const authHeader = Buffer.from(`${this.auth.username}:${this.auth.password}`).toString('base64');
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Requested-By': 'client',
-        'Authorization': `Basic ${authHeader}`,
+    const { queryName, signal } = requestOptions;
+    let sessionRenewed = false;
+
+    for (let attempt = 0; ; attempt++) {
+      let error!: GraylogQueryError;
+      let retryAfterMs: number | null = null;
+      let responseText: string | null = null;
+
+      // Auth problems (missing credentials, failed session creation) are not retried
+      const authHeader = await this.auth.getAuthorizationHeader(signal);
+
+      try {
+        const response = await fetch(url, {
+          method,
+          headers: {
+            ...(body !== undefined && { 'Content-Type': 'application/json' }),
+            'X-Requested-By': 'client',
+            'Authorization': authHeader,
+          },
+          body: body !== undefined ? JSON.stringify(body) : undefined,
+          signal,
+        });
+
+        if (response.ok) {
+          responseText = await response.text();
+        } else if (response.status === 401 && this.auth.mode === 'session' && !sessionRenewed) {
+          // The session expired or was terminated on the server: create a new one and try again
+          await response.text();
+          this.auth.invalidate();
+          sessionRenewed = true;
+          attempt--;
+          continue;
+        } else {
+          const errorText = await response.text();
+          error = new GraylogQueryError(`${response.statusText} - ${errorText}`, { status: response.status, endpoint, queryName });
+          const retryAfter = Number(response.headers.get('retry-after'));
+          retryAfterMs = retryAfter > 0 ? Math.min(retryAfter * 1000, config.graylogRetryMaxDelayMs) : null;
+        }
+      } catch (fetchError: any) {
+        if (signal?.aborted) {
+          throw new GraylogQueryError('Request aborted', { endpoint, queryName, cause: fetchError });
+        }
+        // Network level failure (connection reset, DNS, socket closed...)
+        error = new GraylogQueryError(fetchError?.cause?.code || fetchError?.message || 'Network error', {
+          endpoint,
+          queryName,
+          retryable: true,
+          cause: fetchError,
+        });
+      }
+
+      if (responseText !== null) {
+        return (responseText ? JSON.parse(responseText) : null) as T;
+      }
+
+      if (!error.retryable || attempt >= config.graylogRetryAttempts) {
+        throw error;
+      }
+
+      const delay = retryAfterMs ?? this.getRetryDelay(attempt);
+      console.warn(`${error.message}. Retrying in ${delay}ms (attempt ${attempt + 1}/${config.graylogRetryAttempts})`);
+      try {
+        await this.sleep(delay, signal);
+      } catch (abortError) {
+        throw new GraylogQueryError('Request aborted', { endpoint, queryName, cause: abortError });
+      }
+    }
+  }
+
+  /**
+   * Compute the exponential backoff delay with jitter for a retry attempt
+   * @param attempt Zero based retry attempt
+   * @returns Delay in milliseconds
+   */
+  private getRetryDelay(attempt: number): number {
+    const delay = Math.min(config.graylogRetryMaxDelayMs, config.graylogRetryBaseDelayMs * 2 ** attempt);
+    // Equal jitter: keep half of the delay and randomize the other half
+    return Math.round(delay / 2 + Math.random() * delay / 2);
+  }
+
+  /**
+   * Wait for a given time, rejecting early when the signal is aborted
+   * @param ms Time to wait in milliseconds
+   * @param signal Optional abort signal
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Make a POST request to Graylog API
+   */
+  private async post<T>(endpoint: string, body: any, requestOptions?: GraylogRequestOptions): Promise<T> {
+    return this.request<T>('POST', endpoint, body, requestOptions);
+  }
+
+  /**
+   * Make a GET request to Graylog API
+   */
+  private async get<T>(endpoint: string, requestOptions?: GraylogRequestOptions): Promise<T> {
+    return this.request<T>('GET', endpoint, undefined, requestOptions);
+  }
+
+  /**
+   * Make a DELETE request to Graylog API
+   */
+  private async delete<T>(endpoint: string, requestOptions?: GraylogRequestOptions): Promise<T> {
+    return this.request<T>('DELETE', endpoint, undefined, requestOptions);
+  }
+
+  /**
+   * List all streams
+   * @returns ID and title of every stream
+   */
+  async listStreams(): Promise<GraylogEntity[]> {
+    return this.recorder.run('streams', {}, async () => {
+      const response = await this.get<any>('/streams');
+      return (response?.streams || []).map((stream: any) => ({ id: stream.id, title: stream.title }));
+    });
+  }
+
+  /**
+   * List all saved views (searches and dashboards)
+   * @returns ID and title of every view
+   */
+  async listViews(): Promise<GraylogEntity[]> {
+    return this.recorder.run('views', {}, async () => {
+      const views: GraylogEntity[] = [];
+      const perPage = 100;
+      for (let page = 1; ; page++) {
+        const response = await this.get<any>(`/views?page=${page}&per_page=${perPage}`);
+        const items: any[] = response?.views || response?.elements || [];
+        views.push(...items.map(view => ({ id: view.id, title: view.title })));
+        if (items.length < perPage || views.length >= (response?.total ?? 0)) break;
+      }
+      return views;
+    });
+  }
+
+  /**
+   * List the message fields available in the given streams
+   * @param streamIds Optional array of stream IDs or titles; all streams when omitted
+   * @returns Name and type of every field
+   */
+  async listFieldTypes(streamIds?: string[]): Promise<FieldType[]> {
+    const streams = (await this.resolveStreamIds(streamIds)) || [];
+    return this.recorder.run('fields', { streams: [...streams].sort() }, async () => {
+      const response = await this.post<any[]>('/views/fields', { streams });
+      return (response || []).map(field => ({
+        name: field.name,
+        type: field.type?.type || 'unknown',
+      }));
+    });
+  }
+
+  /**
+   * Resolve stream references (IDs or titles) to stream IDs
+   * @param streamRefs Optional array of stream IDs or titles
+   * @returns Stream IDs, or undefined when no streams were given
+   */
+  async resolveStreamIds(streamRefs?: string[]): Promise<string[] | undefined> {
+    if (!streamRefs || streamRefs.length === 0) return streamRefs;
+    return this.resolver.resolveStreams(streamRefs);
+  }
+
+  /**
+   * Resolve a saved view reference (ID or title) to its view ID
+   * @param viewRef View ID or title
+   * @returns View ID
+   */
+  async resolveViewId(viewRef: string): Promise<string> {
+    return this.resolver.resolveView(viewRef);
+  }
+
+  /**
+   * Check that stream and view references exist, so a run fails before any query instead of reporting zero counts
+   * @param refs Stream and view references (IDs or titles)
+   * @throws Error listing every reference that could not be resolved
+   */
+  async validateReferences(refs: { streams?: string[]; views?: string[] }): Promise<void> {
+    await this.resolver.validate(refs);
+  }
+
+  /**
+   * Convert a time value to an ISO string
+   * @param value Time as ISO string or epoch milliseconds
+   * @returns ISO time string
+   */
+  private toIsoTime(value: string | number): string {
+    return typeof value === 'number' ? new Date(value).toISOString() : value;
+  }
+
+  /**
+   * Build the stream filter for a query
+   * @param streamIds Optional array of stream IDs or titles to filter by
+   * @returns Filter object or null when no stream IDs are provided
+   */
+  private buildStreamFilter(streamIds?: string[]): SearchQueryEntry['filter'] {
+    if (!streamIds || streamIds.length === 0) {
+      return null;
+    }
+    return {
+      type: 'or',
+      filters: streamIds.map(streamId => ({
+        type: 'stream',
+        id: streamId,
+      })),
+    };
+  }
+
+  /**
+   * Build a single query entry of a search body
+   * @param query The search query string
+   * @param from Start time (ISO string or epoch milliseconds)
+   * @param to End time (ISO string or epoch milliseconds)
+   * @param searchTypes Search types to attach to the query
+   * @param streamIds Optional array of stream IDs or titles to filter by
+   * @param id Optional query id, generated when omitted
+   * @returns Query entry
+   */
+  private buildQueryEntry(
+    query: string,
+    from: string | number,
+    to: string | number,
+    searchTypes: SearchTypeSpec[],
+    streamIds?: string[],
+    id: string = randomUUID()
+  ): SearchQueryEntry {
+    return {
+      id,
+      query: { type: 'elasticsearch', query_string: query },
+      timerange: {
+        type: 'absolute',
+        from: this.toIsoTime(from),
+        to: this.toIsoTime(to),
       },
-      body: JSON.stringify(body),
+      filter: this.buildStreamFilter(streamIds),
+      filters: [],
+      // Our own ids let results be mapped back to the search types by name
+      search_types: searchTypes.map(searchType => ({ id: randomUUID(), ...searchType })),
+    };
+  }
+
+  /**
+   * Build a search body with a single query
+   * @param query The search query string
+   * @param from Start time (ISO string or epoch milliseconds)
+   * @param to End time (ISO string or epoch milliseconds)
+   * @param searchTypes Search types to attach to the query
+   * @param streamIds Optional array of stream IDs or titles to filter by
+   * @returns Search body ready to be posted to /views/search
+   */
+  private buildSearchBody(
+    query: string,
+    from: string | number,
+    to: string | number,
+    searchTypes: SearchTypeSpec[],
+    streamIds?: string[]
+  ): SearchBody {
+    return {
+      queries: [this.buildQueryEntry(query, from, to, searchTypes, streamIds)],
+      parameters: [],
+    };
+  }
+
+  /**
+   * Create a search and execute it
+   * @param body The search body
+   * @param requestOptions Optional query name (used in errors) and abort signal
+   * @returns Search execution result
+   */
+  private async createAndExecuteSearch(body: SearchBody, requestOptions?: GraylogRequestOptions): Promise<SearchJob> {
+    this.checkQuerySyntax(body, requestOptions);
+    if (this.recorder.mode === 'off') {
+      return this.createAndExecuteSearchLive(body, requestOptions);
+    }
+
+    // Record or replay the final result; it is returned without executing node, so nothing is polled afterwards
+    const recorded = await this.recorder.run('search', normalizeSearchKey(body), async () => {
+      const executeResponse = await this.createAndExecuteSearchLive(body, requestOptions);
+      const { result } = await this.executeQueryAndWait(executeResponse, () => null, requestOptions);
+      return normalizeSearchResult(result, body);
     });
+    return validateSearchJob(denormalizeSearchResult(recorded, body));
+  }
+
+  /**
+   * Lint the query strings of a search body before it is sent
+   * Warnings are logged once per query string
+   * @param body Search body
+   * @param requestOptions Optional query name (used in errors)
+   * @throws QuerySyntaxError when a query string has syntax errors
+   */
+  private checkQuerySyntax(body: SearchBody, requestOptions?: GraylogRequestOptions): void {
+    for (const entry of body.queries) {
+      const query = entry.query.query_string;
+      const issues = lintQuery(query);
+      const errors = issues.filter(issue => issue.severity === 'error');
+      if (errors.length > 0) {
+        throw new QuerySyntaxError(query, formatLintIssues(errors), { queryName: requestOptions?.queryName });
+      }
+      if (issues.length > 0 && !warnedQueries.has(query)) {
+        warnedQueries.add(query);
+        console.warn(`Query${requestOptions?.queryName ? ` "${requestOptions.queryName}"` : ''} may not match as intended: ${formatLintIssues(issues).join('; ')}\n  ${query}`);
+      }
+    }
+  }
+
+  /**
+   * Create and execute a search on Graylog
+   * @param body Search body
+   * @param requestOptions Optional query name (used in errors) and abort signal
+   * @returns Search execution result
+   */
+  private async createAndExecuteSearchLive(body: SearchBody, requestOptions?: GraylogRequestOptions): Promise<SearchJob> {
+    // First, create the search
+    const searchResponse = validateSearchCreated(await this.post<unknown>('/views/search', body, requestOptions));
+
+    // Then execute it
+    return validateSearchJob(await this.post<unknown>(`/views/search/${searchResponse.id}/execute`, {}, requestOptions));
+  }
+
+
+  /**
+   * Normalize a pivot group given as a field name or a group object
+   * @param group Field name or group object
+   * @returns Group object
+   */
+  private normalizePivotGroup<F extends string>(group: F | PivotGroup<F>): PivotGroup<F> {
+    return typeof group === 'string' ? { field: group } : group;
+  }
+
+  /**
+   * Build the series of a pivot, always starting with count()
+   * @param options Pivot query options
+   * @returns Series definitions in Graylog format
+   */
+  private buildPivotSeries(options: PivotQueryOptions): any[] {
+    const series = (options.series || []).map(item => typeof item === 'string' ? parseSeries(item) : item);
+    const spec = series.map(item => ({
+      id: buildSeriesId(item),
+      type: item.type,
+      ...(item.field && { field: item.field }),
+      ...(item.type === 'percentile' && { percentile: item.percentile }),
+    }));
+    if (!spec.some(item => item.id === COUNT_SERIES_ID)) {
+      spec.unshift({ id: COUNT_SERIES_ID, type: 'count' });
+    }
+    return spec;
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Graylog API error: ${response.status} ${response.statusText} - ${errorText}`);
+  /**
+   * Build a search type that only computes the total count
+   * @returns Pivot search type without groups
+   */
+  private buildCountSearchType(): SearchTypeSpec {
+    return {
+      name: 'count_only',
+      type: 'pivot',
+      rollup: true,
+      series: [
+        { id: COUNT_SERIES_ID, type: 'count' }
+      ],
+      row_groups: [],
+      column_groups: [],
+      filters: [],
+      sort: [],
+    };
+  }
+
+  /**
+   * Build a pivot search type from pivot query options
+   * @param options Pivot query options
+   * @returns Pivot search type
+   */
+  private buildPivotSearchType(options: PivotQueryOptions): SearchTypeSpec {
+    const rowGroups = options.rowGroups.map(group => this.normalizePivotGroup(group));
+    const columnGroups = (options.columnGroups || []).map(group => this.normalizePivotGroup(group));
+    const toGroup = (group: PivotGroup) => {
+      if (group.interval) {
+        return {
+          type: 'time',
+          fields: [group.field],
+          interval: { type: 'timeunit', ...parseInterval(group.interval) },
+        };
+      }
+      return {
+        type: 'values',
+        fields: [group.field],
+        limit: group.limit ?? config.graylogPivotLimit,
+      };
+    };
+
+    // Sort by group value first, then optionally by count
+    const sort: any[] = [...rowGroups, ...columnGroups]
+      .filter(group => group.sort)
+      .map(group => ({
+        type: 'pivot',
+        field: group.field,
+        direction: group.sort === 'asc' ? 'Ascending' : 'Descending',
+      }));
+    if (options.sortByCount) {
+      sort.push({
+        type: 'series',
+        field: COUNT_SERIES_ID,
+        direction: options.sortByCount === 'asc' ? 'Ascending' : 'Descending',
+      });
     }
 
-    return response.json() as Promise<T>;
+    return {
+      name: options.name || 'pivot',
+      type: 'pivot',
+      rollup: true,
+      series: this.buildPivotSeries(options),
+      row_groups: rowGroups.map(toGroup),
+      column_groups: columnGroups.map(toGroup),
+      filters: [],
+      sort,
+    };
+  }
+
+  /**
+   * Build a messages search type from message query options
+   * @param options Message query options
+   * @returns Messages search type
+   */
+  private buildMessagesSearchType(options: MessageQueryOptions): SearchTypeSpec {
+    const sort = options.sort || { field: 'timestamp', order: 'desc' };
+    return {
+      name: options.name || 'messages',
+      type: 'messages',
+      limit: options.limit ?? DEFAULT_MESSAGE_LIMIT,
+      offset: options.offset ?? 0,
+      sort: [{ field: sort.field, order: sort.order === 'asc' ? 'ASC' : 'DESC' }],
+      decorators: [],
+      filters: [],
+    };
+  }
+
+  /**
+   * Execute a count query in Graylog filtered by stream IDs
+   * @param query The search query string
+   * @param from Start time (ISO string or epoch milliseconds)
+   * @param to End time (ISO string or epoch milliseconds)
+   * @param streamIds Optional array of stream IDs or titles to filter by
+   * @param requestOptions Optional query name (used in errors) and abort signal
+   * @returns Search execution result
+   */
+  async executeCountQueryByStreamIds(
+    query: string,
+    from: string | number,
+    to: string | number,
+    streamIds?: string[],
+    requestOptions?: GraylogRequestOptions
+  ): Promise<SearchJob> {
+    const body = this.buildSearchBody(query, from, to, [this.buildCountSearchType()], await this.resolveStreamIds(streamIds));
+
+    return this.createAndExecuteSearch(body, requestOptions);
+  }
+
+  /**
+   * Execute a pivot query with any number of row and column groups filtered by stream IDs
+   * @param query The search query string
+   * @param from Start time (ISO string or epoch milliseconds)
+   * @param to End time (ISO string or epoch milliseconds)
+   * @param options Row groups, column groups, series, limits and sort of the pivot
+   * @param streamIds Optional array of stream IDs or titles to filter by
+   * @param requestOptions Optional query name (used in errors) and abort signal
+   * @returns Search execution result
+   */
+  async executePivotQueryByStreamIds(
+    query: string,
+    from: string | number,
+    to: string | number,
+    options: PivotQueryOptions,
+    streamIds?: string[],
+    requestOptions?: GraylogRequestOptions
+  ): Promise<SearchJob> {
+    const body = this.buildSearchBody(query, from, to, [this.buildPivotSearchType(options)], await this.resolveStreamIds(streamIds));
+    return this.createAndExecuteSearch(body, requestOptions);
+  }
+
+  /**
+   * Execute a message list query filtered by stream IDs
+   * @param query The search query string
+   * @param from Start time (ISO string or epoch milliseconds)
+   * @param to End time (ISO string or epoch milliseconds)
+   * @param options Fields, page size, offset and sort of the messages
+   * @param streamIds Optional array of stream IDs or titles to filter by
+   * @param requestOptions Optional query name (used in errors) and abort signal
+   * @returns Search execution result
+   */
+  async executeMessageQueryByStreamIds(
+    query: string,
+    from: string | number,
+    to: string | number,
+    options: MessageQueryOptions,
+    streamIds?: string[],
+    requestOptions?: GraylogRequestOptions
+  ): Promise<SearchJob> {
+    const body = this.buildSearchBody(query, from, to, [this.buildMessagesSearchType(options)], await this.resolveStreamIds(streamIds));
+    return this.createAndExecuteSearch(body, requestOptions);
+  }
+
+  /**
+   * Get search result status
+   * @param executingNode The node executing the search
+   * @param executingId The execution ID
+   * @param requestOptions Optional query name (used in errors) and abort signal
+   * @returns Search result status
+   */
+  async getSearchResult(executingNode: string, executingId: string, requestOptions?: GraylogRequestOptions): Promise<SearchJob> {
+    return validateSearchJob(await this.get<unknown>(`/views/searchjobs/${executingNode}/${executingId}/status`, requestOptions));
+  }
+
+  /**
+   * Cancel a running search job so it stops consuming cluster resources
+   * Failures are logged and ignored since the job is abandoned anyway
+   * @param executingNode The node executing the search
+   * @param executingId The execution ID
+   * @param queryName Optional query name used in logs
+   */
+  async cancelSearchJob(executingNode: string, executingId: string, queryName?: string): Promise<void> {
+    try {
+      await this.delete<any>(`/views/searchjobs/${executingNode}/${executingId}/cancel`, { queryName });
+      console.log(`Cancelled search job ${executingId} on node ${executingNode}`);
+    } catch (error) {
+      console.error(`Failed to cancel search job ${executingId} on node ${executingNode}:`, error);
+    }
+  }
+
+  /**
+   * Wait for search to complete and get results
+   * Polls the status endpoint until the query is done. The search job is cancelled when it is not done: on timeout, abort or a failed poll
+   * @param executingNode The node executing the search
+   * @param executingId The execution ID
+   * @param maxWaitTime Maximum time to wait in milliseconds (default: GRAYLOG_SEARCH_TIMEOUT_MS, 5 minutes)
+   * @param pollInterval Polling interval in milliseconds (default: GRAYLOG_POLL_INTERVAL_MS, 2 seconds)
+   * @param requestOptions Optional query name (used in errors) and abort signal
+   * @returns Search result when complete
+   */
+  async waitForSearchResult(
+    executingNode: string,
+    executingId: string,
+    maxWaitTime: number = config.graylogSearchTimeoutMs,
+    pollInterval: number = config.graylogPollIntervalMs,
+    requestOptions: GraylogRequestOptions = {}
+  ): Promise<SearchJob> {
+    const startTime = Date.now();
+    const endpoint = `/views/searchjobs/${executingNode}/${executingId}/status`;
+    const { queryName, signal } = requestOptions;
+    let done = false;
+    
+    try {
+      while (Date.now() - startTime < maxWaitTime) {
+        const status = await this.getSearchResult(executingNode, executingId, requestOptions);
+        
+        // Check if search is complete based on execution.done
+        if (status.execution.done) {
+          done = true;
+          // Check for errors
+          if (status.execution.cancelled === true) {
+            throw new GraylogQueryError('Search was cancelled', { endpoint, queryName });
+          }
+          
+          if (status.execution.completed_exceptionally === true) {
+            console.log(status);
+            const details = (status.errors || []).map(error => error.description).filter(Boolean).join('; ');
+            throw new GraylogQueryError(`Search completed exceptionally${details ? `: ${details}` : ''}`, { endpoint, queryName });
+          }
+          
+          // Results are already in the status response when done
+          return status;
+        }
+        
+        // Wait before polling again
+        await this.sleep(pollInterval, signal);
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error instanceof GraylogQueryError ? error : new GraylogQueryError('Search aborted', { endpoint, queryName, cause: error });
+      }
+      throw error;
+    } finally {
+      // Otherwise the job keeps running on the Graylog node; cancelSearchJob logs and ignores its own errors
+      if (!done) {
+        await this.cancelSearchJob(executingNode, executingId, queryName);
+      }
+    }
+    
+    throw new GraylogQueryError(`Search timed out after ${maxWaitTime}ms`, { endpoint, queryName });
+  }
+
+  /**
+   * Execute a count query grouped by 1 column in Graylog filtered by stream IDs
+   * @param query The search query string
+   * @param from Start time (ISO string or epoch milliseconds)
+   * @param to End time (ISO string or epoch milliseconds)
+   * @param groupByColumn The column name to group by, or a group with its own bucket limit
+   * @param streamIds Optional array of stream IDs or titles to filter by
+   * @param requestOptions Optional query name (used in errors) and abort signal
+   * @returns Search execution result
+   */
+  async executeCountAndGroupBy1ColumnQueryByStreamIds(
+    query: string,
+    from: string | number,
+    to: string | number,
+    groupByColumn: string | PivotGroup,
+    streamIds?: string[],
+    requestOptions?: GraylogRequestOptions
+  ): Promise<SearchJob> {
+    return this.executePivotQueryByStreamIds(query, from, to, {
+      name: 'grouped_count',
+      rowGroups: [groupByColumn],
+    }, streamIds, requestOptions);
+  }
+
+  /**
+   * Generic function to execute a query and wait for results, then extract data using a callback
+   * @param executeResponse The response from executing a search query
+   * @param extractCallback Function to extract data from the final result
+   * @param requestOptions Optional query name (used in errors) and abort signal
+   * @returns Object containing the full result and extracted data
+   */
+  private async executeQueryAndWait<T>(
+    executeResponse: SearchJob,
+    extractCallback: (result: SearchJob) => T,
+    requestOptions?: GraylogRequestOptions
+  ): Promise<{ result: SearchJob; data: T }> {
+    let finalResult: SearchJob;
+    
+    // If there's an executing node, wait for the result
+    if (executeResponse.executing_node && executeResponse.id) {
+      finalResult = await this.waitForSearchResult(
+        executeResponse.executing_node,
+        executeResponse.id,
+        config.graylogSearchTimeoutMs,
+        config.graylogPollIntervalMs,
+        requestOptions
+      );
+    } else {
+      // If no executing node, use the response directly
+      finalResult = executeResponse;
+    }
+    
+    // Extract data from the result using the callback, naming the query in shape errors
+    let data: T;
+    try {
+      data = extractCallback(finalResult);
+    } catch (error) {
+      if (error instanceof GraylogResponseError && requestOptions?.queryName && !error.queryName) {
+        throw new GraylogResponseError(error.detail, error.path, { queryName: requestOptions.queryName });
+      }
+      throw error;
+    }
+    
+    return {
+      result: finalResult,
+      data: data,
+    };
+  }
+
+  /**
+   * Describe the errors Graylog reported for a search job and its queries
+   * @param result The search job
+   * @returns Error descriptions joined for messages, or an empty string
+   */
+  private describeSearchErrors(result: SearchJob): string {
+    const errors = [
+      ...(result.errors || []),
+      ...Object.values(result.results).flatMap(queryResult => queryResult.errors || []),
+    ];
+    return errors.map(error => error.description).filter(Boolean).join('; ');
+  }
+
+  /**
+   * Get the name of every search type result of a query result
+   * Names come from the executed query Graylog echoes back, or from the search type result itself
+   * @param queryResult Result of a single query
+   * @returns Search type names keyed by search type id
+   */
+  private searchTypeNames(queryResult: QueryResult): Map<string, string> {
+    const names = new Map<string, string>();
+    for (const searchType of queryResult.query?.search_types || []) {
+      if (searchType.id && searchType.name) names.set(searchType.id, searchType.name);
+    }
+    for (const [id, searchType] of Object.entries(queryResult.search_types)) {
+      if (!names.has(id) && searchType.name) names.set(id, searchType.name);
+    }
+    return names;
+  }
+
+  /**
+   * Find a search type result in a Graylog search result
+   * @param result The search job
+   * @param selector Name assigned to the search type when building the search, or its query and search type ids
+   * @returns The search type result and its path within the search job
+   * @throws GraylogResponseError when the search type is missing or its name is ambiguous
+   */
+  private findSearchType(result: SearchJob, selector: SearchTypeSelector): { searchType: SearchTypeResult; path: string } {
+    const errors = this.describeSearchErrors(result);
+    const withErrors = (detail: string) => errors ? `${detail} (Graylog reported: ${errors})` : detail;
+
+    if (typeof selector !== 'string') {
+      const queryResult = result.results[selector.queryId];
+      if (!queryResult) {
+        throw new GraylogResponseError(withErrors(`query ${selector.queryId} is missing`), 'results');
+      }
+      const path = `results.${selector.queryId}.search_types`;
+      const searchType = queryResult.search_types[selector.searchTypeId];
+      if (!searchType) {
+        throw new GraylogResponseError(withErrors(`search type ${selector.searchTypeId} is missing`), path);
+      }
+      return { searchType, path: `${path}.${selector.searchTypeId}` };
+    }
+
+    const matches: Array<{ searchType: SearchTypeResult; path: string }> = [];
+    const available: string[] = [];
+    for (const [queryId, queryResult] of Object.entries(result.results)) {
+      for (const [id, name] of this.searchTypeNames(queryResult)) {
+        available.push(name);
+        if (name === selector && queryResult.search_types[id]) {
+          matches.push({ searchType: queryResult.search_types[id], path: `results.${queryId}.search_types.${id}` });
+        }
+      }
+    }
+
+    if (matches.length === 0) {
+      const known = available.length > 0 ? available.map(name => `"${name}"`).join(', ') : 'none';
+      throw new GraylogResponseError(withErrors(`no search type named "${selector}" (available: ${known})`), 'results');
+    }
+    if (matches.length > 1) {
+      throw new GraylogResponseError(`${matches.length} search types are named "${selector}"`, 'results');
+    }
+    return matches[0];
+  }
+
+  /**
+   * Extract count from Graylog search result
+   * @param result The search job
+   * @param selector Name or location of the search type holding the count (default: 'count_only')
+   * @returns The total count
+   * @throws GraylogResponseError when the search type is missing or has no numeric total
+   */
+  extractCount(result: SearchJob, selector: SearchTypeSelector = 'count_only'): number {
+    const { searchType, path } = this.findSearchType(result, selector);
+    const total = searchType.type === 'messages'
+      ? validateMessagesResult(searchType, path).total_results
+      : validatePivotResult(searchType, path).total;
+    return total;
+  }
+
+  /**
+   * Extract the leaf rows of a pivot from Graylog search result
+   * @param result The search job
+   * @param options The pivot query options used to build the search
+   * @param selector Name or location of the pivot search type (default: options.name or 'pivot')
+   * @returns Array of rows keyed by row group field name
+   * @throws GraylogResponseError when the search type is missing or is not a pivot result
+   */
+  extractPivotRows<F extends string>(
+    result: SearchJob,
+    options: PivotQueryOptions<F>,
+    selector: SearchTypeSelector = options.name || 'pivot'
+  ): PivotRow<F>[] {
+    return this.extractPivot(result, options, selector).rows;
+  }
+
+  /**
+   * Extract the leaf rows of a pivot and check whether they cover every matching message
+   * The leaf sum is compared to the rollup total; the difference is appended as "(other)" row when options.otherRow is set
+   * @param result The search job
+   * @param options The pivot query options used to build the search
+   * @param selector Name or location of the pivot search type (default: options.name or 'pivot')
+   * @returns Rows keyed by row group field name and the coverage of the rows
+   * @throws GraylogResponseError when the search type is missing or is not a pivot result
+   */
+  extractPivot<F extends string>(
+    result: SearchJob,
+    options: PivotQueryOptions<F>,
+    selector: SearchTypeSelector = options.name || 'pivot'
+  ): { rows: PivotRow<F>[]; overflow: PivotOverflow } {
+    const { searchType, path } = this.findSearchType(result, selector);
+    const pivot = validatePivotResult(searchType, path);
+
+    const groups = options.rowGroups.map(group => this.normalizePivotGroup(group));
+    const fields = groups.map(group => group.field);
+    const output: PivotRow<F>[] = [];
+    const leafKeys: string[][] = [];
+
+    for (const row of pivot.rows) {
+      // Skip the global total row and intermediate rollups: they are "non-leaf"
+      if (row.source !== 'leaf') continue;
+
+      // Key is an array with one value per row group: [column1Value, column2Value, ...]
+      const key = row.key;
+      leafKeys.push(key);
+      const rowFields = {} as Record<F, string>;
+      fields.forEach((field, index) => {
+        rowFields[field] = key[index] ?? '(Unknown)';
+      });
+
+      // Each value key is [...columnValues, seriesId]; an empty column part is the row total
+      const values: Record<string, number | null> = {};
+      const columns: Record<string, Record<string, number | null>> = {};
+      for (const value of row.values) {
+        const valueKey = value.key;
+        const seriesId = valueKey[valueKey.length - 1] ?? COUNT_SERIES_ID;
+        const columnKey = valueKey.slice(0, -1);
+        if (columnKey.length === 0) {
+          values[seriesId] = value.value ?? null;
+        } else {
+          const columnName = columnKey.join(' / ');
+          columns[columnName] = columns[columnName] || {};
+          columns[columnName][seriesId] = value.value ?? null;
+        }
+      }
+
+      // Without a row total fall back to the sum of the column buckets
+      const count = values[COUNT_SERIES_ID] ?? Object.values(columns)
+        .reduce((sum, column) => sum + (column[COUNT_SERIES_ID] ?? 0), 0);
+
+      output.push({
+        fields: rowFields,
+        count,
+        values,
+        columns,
+      });
+    }
+
+    // The rollup total row has an empty key; without rollups fall back to the search type total
+    const totalRow = pivot.rows.find(row => row.source !== 'leaf' && row.key.length === 0);
+    const rollupTotal = totalRow?.values.find(value => value.key.length === 1 && value.key[0] === COUNT_SERIES_ID)?.value;
+    const total = rollupTotal ?? pivot.total;
+    const leafTotal = output.reduce((sum, row) => sum + row.count, 0);
+    const overflow: PivotOverflow = {
+      total,
+      leafTotal,
+      // Without row groups the single row is the total itself
+      other: fields.length > 0 ? Math.max(0, total - leafTotal) : 0,
+      limitedFields: groups
+        .filter((group, level) => !group.interval && this.maxBucketsPerParent(leafKeys, level) >= (group.limit ?? config.graylogPivotLimit))
+        .map(group => group.field),
+    };
+
+    if (options.otherRow && overflow.other > 0) {
+      output.push(this.buildOtherRow(fields, overflow.other));
+    }
+
+    return { rows: output, overflow };
+  }
+
+  /**
+   * Build the row holding the messages outside the returned buckets
+   * @param fields Row group fields
+   * @param count Number of messages outside the returned buckets
+   * @returns Pivot row with every field set to "(other)"
+   */
+  private buildOtherRow<F extends string>(fields: F[], count: number): PivotRow<F> {
+    return {
+      fields: Object.fromEntries(fields.map(field => [field, OTHER_BUCKET])) as Record<F, string>,
+      count,
+      values: { [COUNT_SERIES_ID]: count },
+      columns: {},
+    };
+  }
+
+  /**
+   * Count the distinct buckets of a row group level below each bucket of the previous levels
+   * @param keys Keys of the leaf rows
+   * @param level Index of the row group level
+   * @returns Highest number of buckets of the level below a single parent bucket
+   */
+  private maxBucketsPerParent(keys: string[][], level: number): number {
+    const bucketsByParent = new Map<string, Set<string>>();
+    for (const key of keys) {
+      const parent = JSON.stringify(key.slice(0, level));
+      const buckets = bucketsByParent.get(parent) ?? new Set<string>();
+      buckets.add(key[level]);
+      bucketsByParent.set(parent, buckets);
+    }
+    return Math.max(0, ...[...bucketsByParent.values()].map(buckets => buckets.size));
+  }
+
+  /**
+   * Extract a page of messages from Graylog search result
+   * @param result The search job
+   * @param options The message query options used to build the search
+   * @param selector Name or location of the messages search type (default: options.name or 'messages')
+   * @returns Page of messages reduced to the requested fields
+   * @throws GraylogResponseError when the search type is missing or is not a messages result
+   */
+  extractMessages<F extends string>(
+    result: SearchJob,
+    options: MessageQueryOptions<F>,
+    selector: SearchTypeSelector = options.name || 'messages'
+  ): MessagePage<F> {
+    const { searchType, path } = this.findSearchType(result, selector);
+    const { messages: entries, total_results: total } = validateMessagesResult(searchType, path);
+    const offset = options.offset ?? 0;
+
+    // Each entry wraps the message fields together with its index and highlight ranges
+    const messages = entries.map(entry => {
+      const message = entry.message;
+      if (!options.fields) return message as Record<F, any>;
+      const projected = {} as Record<F, any>;
+      for (const field of options.fields) {
+        projected[field] = message[field] ?? null;
+      }
+      return projected;
+    });
+
+    const nextOffset = offset + messages.length;
+    return {
+      messages,
+      total,
+      offset,
+      nextOffset: messages.length > 0 && nextOffset < total ? nextOffset : null,
+    };
+  }
+
+  /**
+   * Flatten pivot rows into the legacy grouped data format
+   * @param rows Pivot rows
+   * @returns Array of grouped data with column values and count
+   */
+  private toGroupedData(rows: PivotRow[]): any[] {
+    return rows.map(row => ({
+      ...row.fields,
+      count: row.count,
+    }));
+  }
+
+  /**
+   * Extract grouped data from Graylog search result
+   * @param result The search result object
+   * @param groupByColumn The column name used for grouping, or a group with its own bucket limit
+   * @returns Array of grouped data with column value and count
+   */
+  extractGroupedData(result: SearchJob, groupByColumn: string | PivotGroup): any[] {
+    return this.toGroupedData(this.extractPivotRows(result, { name: 'grouped_count', otherRow: true, rowGroups: [groupByColumn] }));
+  }
+
+  /**
+   * Execute a count query by stream IDs and wait for results
+   * @param query The search query string
+   * @param from Start time (ISO string or epoch milliseconds)
+   * @param to End time (ISO string or epoch milliseconds)
+   * @param streamIds Optional array of stream IDs or titles to filter by
+   * @param requestOptions Optional query name (used in errors) and abort signal
+   * @returns Object containing the full result, the extracted count and the time windows that failed when split
+   */
+  async executeCountQueryByStreamIdsAndWait(
+    query: string,
+    from: string | number,
+    to: string | number,
+    streamIds?: string[],
+    requestOptions?: GraylogRequestOptions
+  ): Promise<{ result: SearchJob; count: number; failedWindows: FailedWindow[] }> {
+    const windows = this.getSplitWindows(from, to, requestOptions);
+    if (windows) {
+      const { values, failedWindows } = await this.runWindows(windows, requestOptions, (window, windowOptions) =>
+        this.executeCountQueryByStreamIdsAndWait(query, window.from, window.to, streamIds, windowOptions)
+      );
+      return {
+        result: this.mergeSearchJobs(values.map(value => value.result)),
+        count: values.reduce((sum, value) => sum + value.count, 0),
+        failedWindows: failedWindows,
+      };
+    }
+
+    const executeResponse = await this.executeCountQueryByStreamIds(query, from, to, streamIds, requestOptions);
+    const extractor = (result: SearchJob) => this.extractCount(result);
+    const { result, data: count } = await this.executeQueryAndWait(executeResponse, extractor, requestOptions);
+    
+    return {
+      result: result,
+      count: count,
+      failedWindows: [],
+    };
+  }
+
+  /**
+   * Execute a pivot query by stream IDs and wait for results
+   * @param query The search query string
+   * @param from Start time (ISO string or epoch milliseconds)
+   * @param to End time (ISO string or epoch milliseconds)
+   * @param options Row groups, column groups, series, limits and sort of the pivot
+   * @param streamIds Optional array of stream IDs or titles to filter by
+   * @param requestOptions Optional query name (used in errors) and abort signal
+   * @returns Object containing the full result, the pivot rows, their coverage and the time windows that failed when split
+   */
+  async executePivotQueryByStreamIdsAndWait<F extends string>(
+    query: string,
+    from: string | number,
+    to: string | number,
+    options: PivotQueryOptions<F>,
+    streamIds?: string[],
+    requestOptions?: GraylogRequestOptions
+  ): Promise<{ result: SearchJob; rows: PivotRow<F>[]; overflow: PivotOverflow; failedWindows: FailedWindow[] }> {
+    const windows = this.getSplitWindows(from, to, requestOptions);
+    if (windows) {
+      const unmergeable = this.buildPivotSeries(options)
+        .filter(series => series.type === 'card' || series.type === 'percentile')
+        .map(series => series.id);
+      if (unmergeable.length === 0) {
+        return this.executeSplitPivotQuery(query, windows, options, streamIds, requestOptions);
+      }
+      console.warn(`Running "${requestOptions?.queryName || options.name || 'pivot'}" as a single search: ${unmergeable.join(', ')} cannot be merged across time windows`);
+    }
+
+    const executeResponse = await this.executePivotQueryByStreamIds(query, from, to, options, streamIds, requestOptions);
+    const extractor = (result: SearchJob) => this.extractPivot(result, options);
+    const { result, data: { rows, overflow } } = await this.executeQueryAndWait(executeResponse, extractor, requestOptions);
+    this.warnPivotOverflow(requestOptions?.queryName || options.name || 'pivot', overflow);
+
+    return {
+      result: result,
+      rows: rows,
+      overflow: overflow,
+      failedWindows: [],
+    };
+  }
+
+  /**
+   * Execute a pivot query per time window and merge the rows
+   * @param query The search query string
+   * @param windows Time windows covering the requested range
+   * @param options Row groups, column groups, series, limits and sort of the pivot
+   * @param streamIds Optional array of stream IDs or titles to filter by
+   * @param requestOptions Optional query name (used in errors) and abort signal
+   * @returns Merged result, rows and coverage, and the time windows that failed
+   */
+  private async executeSplitPivotQuery<F extends string>(
+    query: string,
+    windows: TimeWindow[],
+    options: PivotQueryOptions<F>,
+    streamIds?: string[],
+    requestOptions?: GraylogRequestOptions
+  ): Promise<{ result: SearchJob; rows: PivotRow<F>[]; overflow: PivotOverflow; failedWindows: FailedWindow[] }> {
+    // The "(other)" row is computed from the merged totals, not per window
+    const windowPivot = { ...options, otherRow: false };
+    const { values, failedWindows } = await this.runWindows(windows, requestOptions, (window, windowOptions) =>
+      this.executePivotQueryByStreamIdsAndWait(query, window.from, window.to, windowPivot, streamIds, windowOptions)
+    );
+
+    const fields = options.rowGroups.map(group => this.normalizePivotGroup(group).field);
+    const rows = this.mergePivotRows(values.map(value => value.rows), options);
+    const total = values.reduce((sum, value) => sum + value.overflow.total, 0);
+    const leafTotal = rows.reduce((sum, row) => sum + row.count, 0);
+    const overflow: PivotOverflow = {
+      total,
+      leafTotal,
+      other: fields.length > 0 ? Math.max(0, total - leafTotal) : 0,
+      limitedFields: [...new Set(values.flatMap(value => value.overflow.limitedFields))],
+    };
+    if (options.otherRow && overflow.other > 0) {
+      rows.push(this.buildOtherRow(fields, overflow.other));
+    }
+    this.warnPivotOverflow(requestOptions?.queryName || options.name || 'pivot', overflow);
+
+    return {
+      result: this.mergeSearchJobs(values.map(value => value.result)),
+      rows: rows,
+      overflow: overflow,
+      failedWindows: failedWindows,
+    };
+  }
+
+  /**
+   * Merge the pivot rows of several time windows by their row group values
+   * @param rowSets Rows of each window
+   * @param options The pivot query options used to build the searches
+   * @returns Merged rows in order of first appearance, or by count when sortByCount is set
+   */
+  private mergePivotRows<F extends string>(rowSets: PivotRow<F>[][], options: PivotQueryOptions<F>): PivotRow<F>[] {
+    const seriesTypes = new Map(this.buildPivotSeries(options).map(series => [series.id as string, series.type as PivotSeriesType]));
+    const mergeValues = (target: Record<string, SeriesAccumulator>, values: Record<string, number | null>) => {
+      const weight = values[COUNT_SERIES_ID] ?? 0;
+      for (const [seriesId, value] of Object.entries(values)) {
+        target[seriesId] = target[seriesId] || { value: null, weight: 0 };
+        mergeSeriesValue(seriesTypes.get(seriesId) ?? parseSeries(seriesId).type, target[seriesId], value, weight);
+      }
+    };
+    const toValues = (accumulators: Record<string, SeriesAccumulator>) =>
+      Object.fromEntries(Object.entries(accumulators).map(([seriesId, accumulator]) => [seriesId, accumulator.value]));
+
+    const merged = new Map<string, {
+      fields: Record<F, string>;
+      values: Record<string, SeriesAccumulator>;
+      columns: Record<string, Record<string, SeriesAccumulator>>;
+    }>();
+    for (const rows of rowSets) {
+      for (const row of rows) {
+        const key = JSON.stringify(Object.values(row.fields));
+        const entry = merged.get(key) ?? { fields: row.fields, values: {}, columns: {} };
+        // Rows without a row total only have column values, keep their count anyway
+        mergeValues(entry.values, { [COUNT_SERIES_ID]: row.count, ...row.values });
+        for (const [columnName, columnValues] of Object.entries(row.columns)) {
+          entry.columns[columnName] = entry.columns[columnName] || {};
+          mergeValues(entry.columns[columnName], columnValues);
+        }
+        merged.set(key, entry);
+      }
+    }
+
+    const output = [...merged.values()].map(entry => {
+      const values = toValues(entry.values);
+      return {
+        fields: entry.fields,
+        count: values[COUNT_SERIES_ID] ?? 0,
+        values,
+        columns: Object.fromEntries(Object.entries(entry.columns).map(([columnName, column]) => [columnName, toValues(column)])),
+      };
+    });
+    if (options.sortByCount) {
+      output.sort((a, b) => options.sortByCount === 'asc' ? a.count - b.count : b.count - a.count);
+    }
+    return output;
+  }
+
+  /**
+   * Get the time windows a request is split into
+   * @param from Start time (ISO string or epoch milliseconds)
+   * @param to End time (ISO string or epoch milliseconds)
+   * @param requestOptions Request options with an optional split window
+   * @returns Time windows, or null when the request runs as a single search
+   */
+  private getSplitWindows(from: string | number, to: string | number, requestOptions?: GraylogRequestOptions): TimeWindow[] | null {
+    const window = requestOptions?.splitWindow !== undefined
+      ? requestOptions.splitWindow
+      : (config.graylogSplitWindow as HistogramInterval) || null;
+    if (!window) return null;
+    const windows = splitTimeRange(this.toIsoTime(from), this.toIsoTime(to), window);
+    return windows.length > 1 ? windows : null;
+  }
+
+  /**
+   * Run a search per time window, at most GRAYLOG_SPLIT_CONCURRENCY at a time
+   * A failed window is recorded instead of failing the request, unless every window fails or the request is aborted
+   * @param windows Time windows
+   * @param requestOptions Request options of the whole range
+   * @param run Runs the search of a single window; its request options disable splitting
+   * @returns Values of the successful windows in time order and the failed windows
+   */
+  private async runWindows<T>(
+    windows: TimeWindow[],
+    requestOptions: GraylogRequestOptions | undefined,
+    run: (window: TimeWindow, windowOptions: GraylogRequestOptions) => Promise<T>
+  ): Promise<{ values: T[]; failedWindows: FailedWindow[] }> {
+    const name = requestOptions?.queryName || 'query';
+    const concurrency = config.graylogSplitConcurrency;
+    console.log(`Splitting "${name}" into ${windows.length} time windows (concurrency ${concurrency})`);
+
+    const windowOptions: GraylogRequestOptions = { ...requestOptions, splitWindow: null };
+    type Outcome = { window: TimeWindow; value: T } | { window: TimeWindow; error: unknown };
+    const outcomes = await mapWithConcurrency(windows, concurrency, async (window): Promise<Outcome> => {
+      try {
+        return { window, value: await run(window, windowOptions) };
+      } catch (error) {
+        if (requestOptions?.signal?.aborted) throw error;
+        return { window, error };
+      }
+    });
+
+    const values: T[] = [];
+    const failedWindows: FailedWindow[] = [];
+    for (const outcome of outcomes) {
+      if ('value' in outcome) {
+        values.push(outcome.value);
+      } else {
+        const message = outcome.error instanceof Error ? outcome.error.message : String(outcome.error);
+        failedWindows.push({ ...outcome.window, error: message });
+        console.warn(`Time window ${outcome.window.from} - ${outcome.window.to} of "${name}" failed: ${message}`);
+      }
+    }
+    if (values.length === 0) {
+      throw (outcomes[0] as { error: unknown }).error;
+    }
+    return { values, failedWindows };
+  }
+
+  /**
+   * Combine the search jobs of several time windows into one result
+   * Query ids are unique per search, so the query results of every window are kept side by side
+   * @param jobs Search jobs of the successful windows
+   * @returns Combined search job
+   */
+  private mergeSearchJobs(jobs: SearchJob[]): SearchJob {
+    return {
+      execution: { done: true, cancelled: false, completed_exceptionally: false },
+      results: Object.assign({}, ...jobs.map(job => job.results)),
+      errors: jobs.flatMap(job => job.errors || []),
+    };
   }
 
   /**
-   * Make a GET request to Graylog API
+   * Log a warning when pivot rows do not cover every matching message
+   * @param name Query name used in the log
+   * @param overflow Coverage of the pivot rows
    */
-  private async get<T>(endpoint: string): Promise<T> {
-    const url = `${this.graylogUrl}${endpoint}`;
-    const authHeader = Buffer.from(`${this.auth.username}:${this.auth.password}`).toString('base64');
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'X-Requested-By': 'client',
-        'Authorization': `Basic ${authHeader}`,
-      },
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Graylog API error: ${response.status} ${response.statusText} - ${errorText}`);
+  private warnPivotOverflow(name: string, overflow: PivotOverflow): void {
+    if (overflow.other > 0) {
+      console.warn(`Incomplete grouped result for "${name}": ${describePivotOverflow(overflow)}`);
     }
-
-    return response.json() as Promise<T>;
   }
 
   /**
-   * Execute a count query in Graylog filtered by stream IDs
+   * Execute a message list query by stream IDs and wait for results
    * @param query The search query string
    * @param from Start time (ISO string or epoch milliseconds)
    * @param to End time (ISO string or epoch milliseconds)
-   * @param streamIds Optional array of stream IDs to filter by
-   * @returns Search execution result
+   * @param options Fields, page size, offset and sort of the messages
+   * @param streamIds Optional array of stream IDs or titles to filter by
+   * @param requestOptions Optional query name (used in errors) and abort signal
+   * @returns Object containing the full result and the page of messages
    */
-  async executeCountQueryByStreamIds(query: string, from: string | number, to: string | number, streamIds?: string[]): Promise<any> {
-    const fromStr = typeof from === 'number' ? new Date(from).toISOString() : from;
-    const toStr = typeof to === 'number' ? new Date(to).toISOString() : to;
-
-    // Build filter if streamIds are provided
-    let filter: any = null;
-    if (streamIds && streamIds.length > 0) {
-      filter = {
-        type: 'or',
-        filters: streamIds.map(streamId => ({
-          type: 'stream',
-          id: streamId,
-        })),
-      };
-    }
+  async executeMessageQueryByStreamIdsAndWait<F extends string>(
+    query: string,
+    from: string | number,
+    to: string | number,
+    options: MessageQueryOptions<F>,
+    streamIds?: string[],
+    requestOptions?: GraylogRequestOptions
+  ): Promise<{ result: SearchJob; page: MessagePage<F> }> {
+    const executeResponse = await this.executeMessageQueryByStreamIds(query, from, to, options, streamIds, requestOptions);
+    const extractor = (result: SearchJob) => this.extractMessages(result, options);
+    const { result, data: page } = await this.executeQueryAndWait(executeResponse, extractor, requestOptions);
 
-    const body = {
-      queries: [
-        {
-          query: { type: 'elasticsearch', query_string: query },
-          timerange: {
-            type: 'absolute',
-            from: fromStr,
-            to: toStr,
-          },
-          filter: filter,
-          filters: [],
-          search_types: [
-            {
-              name: 'count_only',
-              type: 'pivot',
-              rollup: true,
-              series: [
-                { id: 'count()', type: 'count' }
-              ],
-              row_groups: [],
-              column_groups: [],
-              filters: [],
-              sort: [],
-            },
-          ],
-        },
-      ],
-      parameters: [],
+    return {
+      result: result,
+      page: page,
     };
-    
-
-    // First, create the search
-    const searchResponse = await this.post<any>('/views/search', body);
-    
-    // Then execute it
-    const executeResponse = await this.post<any>(`/views/search/${searchResponse.id}/execute`, {});
-    
-    return executeResponse;
-  }
-
-  /**
-   * Get search result status
-   * @param executingNode The node executing the search
-   * @param executingId The execution ID
-   * @returns Search result status
-   */
-  async getSearchResult(executingNode: string, executingId: string): Promise<any> {
-    return this.get<any>(`/views/searchjobs/${executingNode}/${executingId}/status`);
   }
 
   /**
-   * Wait for search to complete and get results
-   * Polls the status endpoint until the query is done
-   * @param executingNode The node executing the search
-   * @param executingId The execution ID
-   * @param maxWaitTime Maximum time to wait in milliseconds (default: 5 minutes)
-   * @param pollInterval Polling interval in milliseconds (default: 2 seconds)
-   * @returns Search result when complete
+   * Fetch messages page by page until maxMessages are collected or no pages are left
+   * @param query The search query string
+   * @param from Start time (ISO string or epoch milliseconds)
+   * @param to End time (ISO string or epoch milliseconds)
+   * @param maxMessages Maximum number of messages to collect
+   * @param options Fields, page size, start offset and sort of the messages
+   * @param streamIds Optional array of stream IDs or titles to filter by
+   * @param requestOptions Optional query name (used in errors) and abort signal
+   * @returns Collected messages and the total number of matching messages
    */
-  async waitForSearchResult(
-    executingNode: string,
-    executingId: string,
-    maxWaitTime: number = 5 * 60 * 1000,
-    pollInterval: number = 2000
-  ): Promise<any> {
-    const startTime = Date.now();
-    
-    while (Date.now() - startTime < maxWaitTime) {
-      const status = await this.getSearchResult(executingNode, executingId);
-      
-      // Check if search is complete based on execution.done
-      if (status.execution?.done === true) {
-        // Check for errors
-        if (status.execution.cancelled === true) {
-          throw new Error('Search was cancelled');
-        }
-        
-        if (status.execution.completed_exceptionally === true) {
-          console.log(status);
-          throw new Error('Search completed exceptionally');
-        }
-        
-        // Results are already in the status response when done
-        return status;
-      }
-      
-      // Wait before polling again
-      await new Promise(resolve => setTimeout(resolve, pollInterval));
+  async fetchMessagesByStreamIds<F extends string>(
+    query: string,
+    from: string | number,
+    to: string | number,
+    maxMessages: number,
+    options: MessageQueryOptions<F> = {},
+    streamIds?: string[],
+    requestOptions?: GraylogRequestOptions
+  ): Promise<{ messages: Array<Record<F, any>>; total: number }> {
+    const messages: Array<Record<F, any>> = [];
+    let offset: number | null = options.offset ?? 0;
+    let total = 0;
+
+    while (offset !== null && messages.length < maxMessages) {
+      const limit = Math.min(options.limit ?? DEFAULT_MESSAGE_LIMIT, maxMessages - messages.length);
+      const { page }: { page: MessagePage<F> } = await this.executeMessageQueryByStreamIdsAndWait(
+        query,
+        from,
+        to,
+        { ...options, limit, offset },
+        streamIds,
+        requestOptions
+      );
+      messages.push(...page.messages);
+      total = page.total;
+      offset = page.nextOffset;
     }
-    
-    throw new Error(`Search timed out after ${maxWaitTime}ms`);
+
+    return { messages, total };
   }
 
   /**
-   * Execute a count query grouped by 1 column in Graylog filtered by stream IDs
-   * @param query The search query string
+   * Execute several named queries in a single Graylog search and wait for results
+   * All queries share the time range and run in one search job, which saves round trips and cluster load
+   * @param queries Named queries, each with its own query string, optional pivot and optional stream IDs
    * @param from Start time (ISO string or epoch milliseconds)
    * @param to End time (ISO string or epoch milliseconds)
-   * @param groupByColumn The column name to group by
-   * @param streamIds Optional array of stream IDs to filter by
-   * @returns Search execution result
+   * @param requestOptions Optional query name (used in errors) and abort signal
+   * @returns Object containing the full result and the result of each query keyed by its name
    */
-  async executeCountAndGroupBy1ColumnQueryByStreamIds(
-    query: string,
+  async executeBatchQueryAndWait(
+    queries: BatchQuery[],
     from: string | number,
     to: string | number,
-    groupByColumn: string,
-    streamIds?: string[]
-  ): Promise<any> {
-    const fromStr = typeof from === 'number' ? new Date(from).toISOString() : from;
-    const toStr = typeof to === 'number' ? new Date(to).toISOString() : to;
-
-    // Build filter if streamIds are provided
-    let filter: any = null;
-    if (streamIds && streamIds.length > 0) {
-      filter = {
-        type: 'or',
-        filters: streamIds.map(streamId => ({
-          type: 'stream',
-          id: streamId,
-        })),
-      };
+    requestOptions?: GraylogRequestOptions
+  ): Promise<{ result: SearchJob; results: Record<string, BatchQueryResult> }> {
+    const names = new Set<string>();
+    for (const item of queries) {
+      if (names.has(item.name)) {
+        throw new Error(`Duplicate batch query name "${item.name}"`);
+      }
+      names.add(item.name);
     }
 
+    // Assign our own ids so every result can be mapped back to its query
+    const streamIdsByQuery = await Promise.all(queries.map(item => this.resolveStreamIds(item.streamIds)));
+    const entries = queries.map((item, index) => {
+      const location = { queryId: randomUUID(), searchTypeId: randomUUID() };
+      const searchType = item.pivot ? this.buildPivotSearchType(item.pivot) : this.buildCountSearchType();
+      return {
+        item,
+        location,
+        body: this.buildQueryEntry(item.query, from, to, [{ id: location.searchTypeId, ...searchType }], streamIdsByQuery[index], location.queryId),
+      };
+    });
+
     const body = {
-      queries: [
-        {
-          query: { type: 'elasticsearch', query_string: query },
-          timerange: {
-            type: 'absolute',
-            from: fromStr,
-            to: toStr,
-          },
-          filter: filter,
-          filters: [],
-          search_types: [
-            {
-              name: 'grouped_count',
-              type: 'pivot',
-              rollup: true,
-              series: [
-                { id: 'count()', type: 'count' }
-              ],
-              row_groups: [
-                {
-                  type: 'values',
-                  fields: [groupByColumn],
-                  limit: 10000,
-                }
-              ],
-              column_groups: [],
-              filters: [],
-              sort: [],
-            },
-          ],
-        },
-      ],
+      queries: entries.map(entry => entry.body),
       parameters: [],
     };
-
-    // First, create the search
-    const searchResponse = await this.post<any>('/views/search', body);
-    
-    // Then execute it
-    const executeResponse = await this.post<any>(`/views/search/${searchResponse.id}/execute`, {});
-    
-    return executeResponse;
-  }
-
-  /**
-   * Generic function to execute a query and wait for results, then extract data using a callback
-   * @param executeResponse The response from executing a search query
-   * @param extractCallback Function to extract data from the final result
-   * @returns Object containing the full result and extracted data
-   */
-  private async executeQueryAndWait<T>(
-    executeResponse: any,
-    extractCallback: (result: any) => T
-  ): Promise<{ result: any; data: T }> {
-    let finalResult: any;
-    
-    // If there's an executing node, wait for the result
-    if (executeResponse.executing_node && executeResponse.id) {
-      finalResult = await this.waitForSearchResult(executeResponse.executing_node, executeResponse.id);
-    } else {
-      // If no executing node, use the response directly
-      finalResult = executeResponse;
+    const executeResponse = await this.createAndExecuteSearch(body, requestOptions);
+
+    const extractor = (result: SearchJob) => {
+      const results: Record<string, BatchQueryResult> = {};
+      for (const { item, location } of entries) {
+        const pivot = item.pivot ? this.extractPivot(result, item.pivot, location) : null;
+        results[item.name] = {
+          count: this.extractCount(result, location),
+          rows: pivot?.rows ?? [],
+          overflow: pivot?.overflow ?? null,
+        };
+      }
+      return results;
+    };
+    const { result, data: results } = await this.executeQueryAndWait(executeResponse, extractor, requestOptions);
+    for (const [name, item] of Object.entries(results)) {
+      if (item.overflow) this.warnPivotOverflow(name, item.overflow);
     }
-    
-    // Extract data from the result using the callback
-    const data = extractCallback(finalResult);
-    
+
     return {
-      result: finalResult,
-      data: data,
+      result: result,
+      results: results,
     };
   }
 
   /**
-   * Extract count from Graylog search result
-   * @param result The search result object
-   * @returns The total count or null if not found
+   * Build the pivot options of a time histogram
+   * @param interval Bucket size, e.g. '5m', '15m' or '1h'
+   * @param groupByColumn Optional column to break each bucket down by
+   * @returns Pivot query options
    */
-  extractCount(result: any): number | null {
-    if (!result?.results) return null;
-    
-    const queryIds = Object.keys(result.results);
-    if (queryIds.length === 0) return null;
-    
-    const queryResult = result.results[queryIds[0]];
-    const searchTypeIds = Object.keys(queryResult.search_types);
-    if (searchTypeIds.length === 0) return null;
-    
-    const searchType = queryResult.search_types[searchTypeIds[0]];
-    return searchType.total ?? null;
+  buildTimeHistogramOptions(interval: HistogramInterval, groupByColumn?: string): PivotQueryOptions<'timestamp'> {
+    return {
+      name: 'time_histogram',
+      rowGroups: [{ field: 'timestamp', interval }],
+      columnGroups: groupByColumn ? [groupByColumn] : [],
+    };
   }
 
   /**
-   * Extract grouped data from Graylog search result
-   * @param result The search result object
-   * @param groupByColumn The column name used for grouping
-   * @returns Array of grouped data with column value and count
+   * Convert time histogram pivot rows to one bucket per interval within the absolute range
+   * @param rows Pivot rows of a time histogram
+   * @param from Start time (ISO string or epoch milliseconds)
+   * @param to End time (ISO string or epoch milliseconds)
+   * @param interval Bucket size used by the histogram
+   * @returns Time buckets including empty ones
    */
-  extractGroupedData(result: any, groupByColumn: string): any[] {
-    if (!result?.results) return [];
-
-    // Extract the dynamic query ID
-    const queryId = Object.keys(result.results)[0];
-    const queryResult = result.results[queryId];
-
-    if (!queryResult?.search_types) return [];
-
-    // Extract the dynamic search type ID
-    const searchTypeId = Object.keys(queryResult.search_types)[0];
-    const searchType = queryResult.search_types[searchTypeId];
-
-    if (!searchType?.rows) return [];
-
-    const rows = searchType.rows as any[];
-
-    const output: any[] = [];
-
+  toHistogramBuckets(rows: PivotRow[], from: string | number, to: string | number, interval: HistogramInterval): HistogramBucket[] {
+    // Index returned buckets by their start time
+    const byTime = new Map<number, PivotRow>();
     for (const row of rows) {
-      // Skip the global total row: it has no key (empty array) and is "non-leaf"
-      if (row.source !== "leaf") continue;
-
-      const key = row.key?.[0] ?? "(Unknown)";
-      const value = row.values?.[0]?.value ?? 0;
+      const time = Date.parse(row.fields.timestamp);
+      if (!isNaN(time)) {
+        byTime.set(time, row);
+      }
+    }
 
-      output.push({
-        [groupByColumn]: key,
-        count: value,
+    // Graylog omits empty buckets, so walk the whole range aligned to the interval
+    const intervalMs = intervalToMs(interval);
+    const fromMs = Date.parse(this.toIsoTime(from));
+    const toMs = Date.parse(this.toIsoTime(to));
+    const buckets: HistogramBucket[] = [];
+    for (let time = Math.floor(fromMs / intervalMs) * intervalMs; time <= toMs; time += intervalMs) {
+      const row = byTime.get(time);
+      const groups: Record<string, number> = {};
+      for (const [columnName, values] of Object.entries(row?.columns || {})) {
+        groups[columnName] = values[COUNT_SERIES_ID] ?? 0;
+      }
+      buckets.push({
+        timestamp: new Date(time).toISOString(),
+        count: row?.count ?? 0,
+        groups,
       });
     }
-
-    return output;
+    return buckets;
   }
 
   /**
-   * Execute a count query by stream IDs and wait for results
+   * Execute a time histogram query by stream IDs and wait for results
+   * Returns one bucket per interval within the absolute range, including empty buckets
    * @param query The search query string
    * @param from Start time (ISO string or epoch milliseconds)
    * @param to End time (ISO string or epoch milliseconds)
-   * @param streamIds Optional array of stream IDs to filter by
-   * @returns Object containing the full result and extracted count
+   * @param interval Bucket size, e.g. '5m', '15m' or '1h'
+   * @param groupByColumn Optional column to break each bucket down by
+   * @param streamIds Optional array of stream IDs or titles to filter by
+   * @param requestOptions Optional query name (used in errors) and abort signal
+   * @returns Object containing the full result, the time buckets and the time windows that failed when split
    */
-  async executeCountQueryByStreamIdsAndWait(query: string, from: string | number, to: string | number, streamIds?: string[]): Promise<{ result: any; count: number | null }> {
-    const executeResponse = await this.executeCountQueryByStreamIds(query, from, to, streamIds);
-    const { result, data: count } = await this.executeQueryAndWait(executeResponse, this.extractCount.bind(this));
-    
+  async executeTimeHistogramQueryByStreamIdsAndWait(
+    query: string,
+    from: string | number,
+    to: string | number,
+    interval: HistogramInterval,
+    groupByColumn?: string,
+    streamIds?: string[],
+    requestOptions?: GraylogRequestOptions
+  ): Promise<{ result: SearchJob; buckets: HistogramBucket[]; failedWindows: FailedWindow[] }> {
+    const { result, rows, failedWindows } = await this.executePivotQueryByStreamIdsAndWait(
+      query,
+      from,
+      to,
+      this.buildTimeHistogramOptions(interval, groupByColumn),
+      streamIds,
+      requestOptions
+    );
+
+    const buckets = this.toHistogramBuckets(rows, from, to, interval);
+
     return {
       result: result,
-      count: count,
+      buckets: buckets,
+      failedWindows: failedWindows,
     };
   }
 
@@ -368,32 +1656,30 @@ export class GraylogApiService {
    * @param query The search query string
    * @param from Start time (ISO string or epoch milliseconds)
    * @param to End time (ISO string or epoch milliseconds)
-   * @param groupByColumn The column name to group by
-   * @param streamIds Optional array of stream IDs to filter by
-   * @returns Object containing the full result and grouped data
+   * @param groupByColumn The column name to group by, or a group with its own bucket limit
+   * @param streamIds Optional array of stream IDs or titles to filter by
+   * @param requestOptions Optional query name (used in errors) and abort signal
+   * @returns Object containing the full result, grouped data with an "(other)" row when buckets are missing, the coverage of the rows and the time windows that failed when split
    */
   async executeCountAndGroupBy1ColumnQueryByStreamIdsAndWait(
     query: string,
     from: string | number,
     to: string | number,
-    groupByColumn: string,
-    streamIds?: string[]
-  ): Promise<{ result: any; groupedData: any[] }> {
-    const executeResponse = await this.executeCountAndGroupBy1ColumnQueryByStreamIds(
-      query,
-      from,
-      to,
-      groupByColumn,
-      streamIds
-    );
-    
-    // Create a bound extractor function with the groupByColumn parameter
-    const extractor = (result: any) => this.extractGroupedData(result, groupByColumn);
-    const { result, data: groupedData } = await this.executeQueryAndWait(executeResponse, extractor);
-    
+    groupByColumn: string | PivotGroup,
+    streamIds?: string[],
+    requestOptions?: GraylogRequestOptions
+  ): Promise<{ result: SearchJob; groupedData: any[]; overflow: PivotOverflow; failedWindows: FailedWindow[] }> {
+    const { result, rows, overflow, failedWindows } = await this.executePivotQueryByStreamIdsAndWait(query, from, to, {
+      name: 'grouped_count',
+      rowGroups: [groupByColumn],
+      otherRow: true,
+    }, streamIds, requestOptions);
+
     return {
       result: result,
-      groupedData: groupedData,
+      groupedData: this.toGroupedData(rows),
+      overflow: overflow,
+      failedWindows: failedWindows,
     };
   }
 
@@ -402,129 +1688,36 @@ export class GraylogApiService {
    * @param query The search query string
    * @param from Start time (ISO string or epoch milliseconds)
    * @param to End time (ISO string or epoch milliseconds)
-   * @param groupByColumn1 The first column name to group by
-   * @param groupByColumn2 The second column name to group by
-   * @param streamIds Optional array of stream IDs to filter by
+   * @param groupByColumn1 The first column name to group by, or a group with its own bucket limit
+   * @param groupByColumn2 The second column name to group by, or a group with its own bucket limit
+   * @param streamIds Optional array of stream IDs or titles to filter by
+   * @param requestOptions Optional query name (used in errors) and abort signal
    * @returns Search execution result
    */
   async executeCountAndGroupBy2ColumnQueryByStreamIds(
     query: string,
     from: string | number,
     to: string | number,
-    groupByColumn1: string,
-    groupByColumn2: string,
-    streamIds?: string[]
-  ): Promise<any> {
-    const fromStr = typeof from === 'number' ? new Date(from).toISOString() : from;
-    const toStr = typeof to === 'number' ? new Date(to).toISOString() : to;
-
-    // Build filter if streamIds are provided
-    let filter: any = null;
-    if (streamIds && streamIds.length > 0) {
-      filter = {
-        type: 'or',
-        filters: streamIds.map(streamId => ({
-          type: 'stream',
-          id: streamId,
-        })),
-      };
-    }
-
-    const body = {
-      queries: [
-        {
-          query: { type: 'elasticsearch', query_string: query },
-          timerange: {
-            type: 'absolute',
-            from: fromStr,
-            to: toStr,
-          },
-          filter: filter,
-          filters: [],
-          search_types: [
-            {
-              name: 'grouped_count_2columns',
-              type: 'pivot',
-              rollup: true,
-              series: [
-                { id: 'count()', type: 'count' }
-              ],
-              row_groups: [
-                {
-                  type: 'values',
-                  fields: [groupByColumn1],
-                  limit: 10000,
-                },
-                {
-                  type: 'values',
-                  fields: [groupByColumn2],
-                  limit: 10000,
-                }
-              ],
-              column_groups: [],
-              filters: [],
-              sort: [],
-            },
-          ],
-        },
-      ],
-      parameters: [],
-    };
-
-    // First, create the search
-    const searchResponse = await this.post<any>('/views/search', body);
-    
-    // Then execute it
-    const executeResponse = await this.post<any>(`/views/search/${searchResponse.id}/execute`, {});
-    
-    return executeResponse;
+    groupByColumn1: string | PivotGroup,
+    groupByColumn2: string | PivotGroup,
+    streamIds?: string[],
+    requestOptions?: GraylogRequestOptions
+  ): Promise<SearchJob> {
+    return this.executePivotQueryByStreamIds(query, from, to, {
+      name: 'grouped_count_2columns',
+      rowGroups: [groupByColumn1, groupByColumn2],
+    }, streamIds, requestOptions);
   }
 
   /**
    * Extract grouped data from Graylog search result for 2 columns
    * @param result The search result object
-   * @param groupByColumn1 The first column name used for grouping
-   * @param groupByColumn2 The second column name used for grouping
+   * @param groupByColumn1 The first column name used for grouping, or a group with its own bucket limit
+   * @param groupByColumn2 The second column name used for grouping, or a group with its own bucket limit
    * @returns Array of grouped data with both column values and count
    */
-  extractGroupedData2Columns(result: any, groupByColumn1: string, groupByColumn2: string): any[] {
-    console.log(`extractGroupedData2Columns result: ${JSON.stringify(result, null, 2)}`);
-    if (!result?.results) return [];
-
-    // Extract the dynamic query ID
-    const queryId = Object.keys(result.results)[0];
-    const queryResult = result.results[queryId];
-
-    if (!queryResult?.search_types) return [];
-
-    // Extract the dynamic search type ID
-    const searchTypeId = Object.keys(queryResult.search_types)[0];
-    const searchType = queryResult.search_types[searchTypeId];
-
-    if (!searchType?.rows) return [];
-
-    const rows = searchType.rows as any[];
-
-    const output: any[] = [];
-
-    for (const row of rows) {
-      // Skip the global total row: it has no key (empty array) and is "non-leaf"
-      if (row.source !== "leaf") continue;
-
-      // For 2 columns, key is an array with 2 values: [column1Value, column2Value]
-      const key = row.key || [];
-      const column1Value = key[0] ?? "(Unknown)";
-      const column2Value = key[1] ?? "(Unknown)";
-      const value = row.values?.[0]?.value ?? 0;
-
-      output.push({
-        [groupByColumn1]: column1Value,
-        [groupByColumn2]: column2Value,
-        count: value,
-      });
-    }
-
-    return output;
+  extractGroupedData2Columns(result: SearchJob, groupByColumn1: string | PivotGroup, groupByColumn2: string | PivotGroup): any[] {
+    return this.toGroupedData(this.extractPivotRows(result, { name: 'grouped_count_2columns', otherRow: true, rowGroups: [groupByColumn1, groupByColumn2] }));
   }
 
   /**
@@ -532,35 +1725,32 @@ export class GraylogApiService {
    * @param query The search query string
    * @param from Start time (ISO string or epoch milliseconds)
    * @param to End time (ISO string or epoch milliseconds)
-   * @param groupByColumn1 The first column name to group by
-   * @param groupByColumn2 The second column name to group by
-   * @param streamIds Optional array of stream IDs to filter by
-   * @returns Object containing the full result and grouped data
+   * @param groupByColumn1 The first column name to group by, or a group with its own bucket limit
+   * @param groupByColumn2 The second column name to group by, or a group with its own bucket limit
+   * @param streamIds Optional array of stream IDs or titles to filter by
+   * @param requestOptions Optional query name (used in errors) and abort signal
+   * @returns Object containing the full result, grouped data with an "(other)" row when buckets are missing, the coverage of the rows and the time windows that failed when split
    */
   async executeCountAndGroupBy2ColumnQueryByStreamIdsAndWait(
     query: string,
     from: string | number,
     to: string | number,
-    groupByColumn1: string,
-    groupByColumn2: string,
-    streamIds?: string[]
-  ): Promise<{ result: any; groupedData: any[] }> {
-    const executeResponse = await this.executeCountAndGroupBy2ColumnQueryByStreamIds(
-      query,
-      from,
-      to,
-      groupByColumn1,
-      groupByColumn2,
-      streamIds
-    );
-    
-    // Create a bound extractor function with the groupByColumn parameters
-    const extractor = (result: any) => this.extractGroupedData2Columns(result, groupByColumn1, groupByColumn2);
-    const { result, data: groupedData } = await this.executeQueryAndWait(executeResponse, extractor);
-    
+    groupByColumn1: string | PivotGroup,
+    groupByColumn2: string | PivotGroup,
+    streamIds?: string[],
+    requestOptions?: GraylogRequestOptions
+  ): Promise<{ result: SearchJob; groupedData: any[]; overflow: PivotOverflow; failedWindows: FailedWindow[] }> {
+    const { result, rows, overflow, failedWindows } = await this.executePivotQueryByStreamIdsAndWait(query, from, to, {
+      name: 'grouped_count_2columns',
+      rowGroups: [groupByColumn1, groupByColumn2],
+      otherRow: true,
+    }, streamIds, requestOptions);
+
     return {
       result: result,
-      groupedData: groupedData,
+      groupedData: this.toGroupedData(rows),
+      overflow: overflow,
+      failedWindows: failedWindows,
     };
   }
 
@@ -569,138 +1759,39 @@ export class GraylogApiService {
    * @param query The search query string
    * @param from Start time (ISO string or epoch milliseconds)
    * @param to End time (ISO string or epoch milliseconds)
-   * @param groupByColumn1 The first column name to group by
-   * @param groupByColumn2 The second column name to group by
-   * @param groupByColumn3 The third column name to group by
-   * @param streamIds Optional array of stream IDs to filter by
+   * @param groupByColumn1 The first column name to group by, or a group with its own bucket limit
+   * @param groupByColumn2 The second column name to group by, or a group with its own bucket limit
+   * @param groupByColumn3 The third column name to group by, or a group with its own bucket limit
+   * @param streamIds Optional array of stream IDs or titles to filter by
+   * @param requestOptions Optional query name (used in errors) and abort signal
    * @returns Search execution result
    */
   async executeCountAndGroupBy3ColumnQueryByStreamIds(
     query: string,
     from: string | number,
     to: string | number,
-    groupByColumn1: string,
-    groupByColumn2: string,
-    groupByColumn3: string,
-    streamIds?: string[]
-  ): Promise<any> {
-    const fromStr = typeof from === 'number' ? new Date(from).toISOString() : from;
-    const toStr = typeof to === 'number' ? new Date(to).toISOString() : to;
-
-    // Build filter if streamIds are provided
-    let filter: any = null;
-    if (streamIds && streamIds.length > 0) {
-      filter = {
-        type: 'or',
-        filters: streamIds.map(streamId => ({
-          type: 'stream',
-          id: streamId,
-        })),
-      };
-    }
-
-    const body = {
-      queries: [
-        {
-          query: { type: 'elasticsearch', query_string: query },
-          timerange: {
-            type: 'absolute',
-            from: fromStr,
-            to: toStr,
-          },
-          filter: filter,
-          filters: [],
-          search_types: [
-            {
-              name: 'grouped_count_3columns',
-              type: 'pivot',
-              rollup: true,
-              series: [
-                { id: 'count()', type: 'count' }
-              ],
-              row_groups: [
-                {
-                  type: 'values',
-                  fields: [groupByColumn1],
-                  limit: 10000,
-                },
-                {
-                  type: 'values',
-                  fields: [groupByColumn2],
-                  limit: 10000,
-                },
-                {
-                  type: 'values',
-                  fields: [groupByColumn3],
-                  limit: 10000,
-                }
-              ],
-              column_groups: [],
-              filters: [],
-              sort: [],
-            },
-          ],
-        },
-      ],
-      parameters: [],
-    };
-
-    // First, create the search
-    const searchResponse = await this.post<any>('/views/search', body);
-    
-    // Then execute it
-    const executeResponse = await this.post<any>(`/views/search/${searchResponse.id}/execute`, {});
-    
-    return executeResponse;
+    groupByColumn1: string | PivotGroup,
+    groupByColumn2: string | PivotGroup,
+    groupByColumn3: string | PivotGroup,
+    streamIds?: string[],
+    requestOptions?: GraylogRequestOptions
+  ): Promise<SearchJob> {
+    return this.executePivotQueryByStreamIds(query, from, to, {
+      name: 'grouped_count_3columns',
+      rowGroups: [groupByColumn1, groupByColumn2, groupByColumn3],
+    }, streamIds, requestOptions);
   }
 
   /**
    * Extract grouped data from Graylog search result for 3 columns
    * @param result The search result object
-   * @param groupByColumn1 The first column name used for grouping
-   * @param groupByColumn2 The second column name used for grouping
-   * @param groupByColumn3 The third column name used for grouping
+   * @param groupByColumn1 The first column name used for grouping, or a group with its own bucket limit
+   * @param groupByColumn2 The second column name used for grouping, or a group with its own bucket limit
+   * @param groupByColumn3 The third column name used for grouping, or a group with its own bucket limit
    * @returns Array of grouped data with all three column values and count
    */
-  extractGroupedData3Columns(result: any, groupByColumn1: string, groupByColumn2: string, groupByColumn3: string): any[] {
-    if (!result?.results) return [];
-
-    // Extract the dynamic query ID
-    const queryId = Object.keys(result.results)[0];
-    const queryResult = result.results[queryId];
-
-    if (!queryResult?.search_types) return [];
-
-    // Extract the dynamic search type ID
-    const searchTypeId = Object.keys(queryResult.search_types)[0];
-    const searchType = queryResult.search_types[searchTypeId];
-
-    if (!searchType?.rows) return [];
-
-    const rows = searchType.rows as any[];
-
-    const output: any[] = [];
-
-    for (const row of rows) {
-      // Skip the global total row: it has no key (empty array) and is "non-leaf"
-      if (row.source !== "leaf") continue;
-
-      // For 3 columns, key is an array with 3 values: [column1Value, column2Value, column3Value]
-      const key = row.key || [];
-      const column1Value = key[0] ?? "(Unknown)";
-      const column2Value = key[1] ?? "(Unknown)";
-      const column3Value = key[2] ?? "(Unknown)";
-      const value = row.values?.[0]?.value ?? 0;
-
-      output.push({
-        [groupByColumn1]: column1Value,
-        [groupByColumn2]: column2Value,
-        [groupByColumn3]: column3Value,
-        count: value,
-      });
-    }
-
-    return output;
+  extractGroupedData3Columns(result: SearchJob, groupByColumn1: string | PivotGroup, groupByColumn2: string | PivotGroup, groupByColumn3: string | PivotGroup): any[] {
+    return this.toGroupedData(this.extractPivotRows(result, { name: 'grouped_count_3columns', otherRow: true, rowGroups: [groupByColumn1, groupByColumn2, groupByColumn3] }));
   }
 
   /**
@@ -708,38 +1799,34 @@ export class GraylogApiService {
    * @param query The search query string
    * @param from Start time (ISO string or epoch milliseconds)
    * @param to End time (ISO string or epoch milliseconds)
-   * @param groupByColumn1 The first column name to group by
-   * @param groupByColumn2 The second column name to group by
-   * @param groupByColumn3 The third column name to group by
-   * @param streamIds Optional array of stream IDs to filter by
-   * @returns Object containing the full result and grouped data
+   * @param groupByColumn1 The first column name to group by, or a group with its own bucket limit
+   * @param groupByColumn2 The second column name to group by, or a group with its own bucket limit
+   * @param groupByColumn3 The third column name to group by, or a group with its own bucket limit
+   * @param streamIds Optional array of stream IDs or titles to filter by
+   * @param requestOptions Optional query name (used in errors) and abort signal
+   * @returns Object containing the full result, grouped data with an "(other)" row when buckets are missing, the coverage of the rows and the time windows that failed when split
    */
   async executeCountAndGroupBy3ColumnQueryByStreamIdsAndWait(
     query: string,
     from: string | number,
     to: string | number,
-    groupByColumn1: string,
-    groupByColumn2: string,
-    groupByColumn3: string,
-    streamIds?: string[]
-  ): Promise<{ result: any; groupedData: any[] }> {
-    const executeResponse = await this.executeCountAndGroupBy3ColumnQueryByStreamIds(
-      query,
-      from,
-      to,
-      groupByColumn1,
-      groupByColumn2,
-      groupByColumn3,
-      streamIds
-    );
-    
-    // Create a bound extractor function with the groupByColumn parameters
-    const extractor = (result: any) => this.extractGroupedData3Columns(result, groupByColumn1, groupByColumn2, groupByColumn3);
-    const { result, data: groupedData } = await this.executeQueryAndWait(executeResponse, extractor);
-    
+    groupByColumn1: string | PivotGroup,
+    groupByColumn2: string | PivotGroup,
+    groupByColumn3: string | PivotGroup,
+    streamIds?: string[],
+    requestOptions?: GraylogRequestOptions
+  ): Promise<{ result: SearchJob; groupedData: any[]; overflow: PivotOverflow; failedWindows: FailedWindow[] }> {
+    const { result, rows, overflow, failedWindows } = await this.executePivotQueryByStreamIdsAndWait(query, from, to, {
+      name: 'grouped_count_3columns',
+      rowGroups: [groupByColumn1, groupByColumn2, groupByColumn3],
+      otherRow: true,
+    }, streamIds, requestOptions);
+
     return {
       result: result,
-      groupedData: groupedData,
+      groupedData: this.toGroupedData(rows),
+      overflow: overflow,
+      failedWindows: failedWindows,
     };
   }
 
@@ -748,148 +1835,42 @@ export class GraylogApiService {
    * @param query The search query string
    * @param from Start time (ISO string or epoch milliseconds)
    * @param to End time (ISO string or epoch milliseconds)
-   * @param groupByColumn1 The first column name to group by
-   * @param groupByColumn2 The second column name to group by
-   * @param groupByColumn3 The third column name to group by
-   * @param groupByColumn4 The fourth column name to group by
-   * @param streamIds Optional array of stream IDs to filter by
+   * @param groupByColumn1 The first column name to group by, or a group with its own bucket limit
+   * @param groupByColumn2 The second column name to group by, or a group with its own bucket limit
+   * @param groupByColumn3 The third column name to group by, or a group with its own bucket limit
+   * @param groupByColumn4 The fourth column name to group by, or a group with its own bucket limit
+   * @param streamIds Optional array of stream IDs or titles to filter by
+   * @param requestOptions Optional query name (used in errors) and abort signal
    * @returns Search execution result
    */
   async executeCountAndGroupBy4ColumnQueryByStreamIds(
     query: string,
     from: string | number,
     to: string | number,
-    groupByColumn1: string,
-    groupByColumn2: string,
-    groupByColumn3: string,
-    groupByColumn4: string,
-    streamIds?: string[]
-  ): Promise<any> {
-    const fromStr = typeof from === 'number' ? new Date(from).toISOString() : from;
-    const toStr = typeof to === 'number' ? new Date(to).toISOString() : to;
-
-    // Build filter if streamIds are provided
-    let filter: any = null;
-    if (streamIds && streamIds.length > 0) {
-      filter = {
-        type: 'or',
-        filters: streamIds.map(streamId => ({
-          type: 'stream',
-          id: streamId,
-        })),
-      };
-    }
-
-    const body = {
-      queries: [
-        {
-          query: { type: 'elasticsearch', query_string: query },
-          timerange: {
-            type: 'absolute',
-            from: fromStr,
-            to: toStr,
-          },
-          filter: filter,
-          filters: [],
-          search_types: [
-            {
-              name: 'grouped_count_4columns',
-              type: 'pivot',
-              rollup: true,
-              series: [
-                { id: 'count()', type: 'count' }
-              ],
-              row_groups: [
-                {
-                  type: 'values',
-                  fields: [groupByColumn1],
-                  limit: 10000,
-                },
-                {
-                  type: 'values',
-                  fields: [groupByColumn2],
-                  limit: 10000,
-                },
-                {
-                  type: 'values',
-                  fields: [groupByColumn3],
-                  limit: 10000,
-                },
-                {
-                  type: 'values',
-                  fields: [groupByColumn4],
-                  limit: 10000,
-                }
-              ],
-              column_groups: [],
-              filters: [],
-              sort: [],
-            },
-          ],
-        },
-      ],
-      parameters: [],
-    };
-
-    // First, create the search
-    const searchResponse = await this.post<any>('/views/search', body);
-    
-    // Then execute it
-    const executeResponse = await this.post<any>(`/views/search/${searchResponse.id}/execute`, {});
-    
-    return executeResponse;
+    groupByColumn1: string | PivotGroup,
+    groupByColumn2: string | PivotGroup,
+    groupByColumn3: string | PivotGroup,
+    groupByColumn4: string | PivotGroup,
+    streamIds?: string[],
+    requestOptions?: GraylogRequestOptions
+  ): Promise<SearchJob> {
+    return this.executePivotQueryByStreamIds(query, from, to, {
+      name: 'grouped_count_4columns',
+      rowGroups: [groupByColumn1, groupByColumn2, groupByColumn3, groupByColumn4],
+    }, streamIds, requestOptions);
   }
 
   /**
    * Extract grouped data from Graylog search result for 4 columns
    * @param result The search result object
-   * @param groupByColumn1 The first column name used for grouping
-   * @param groupByColumn2 The second column name used for grouping
-   * @param groupByColumn3 The third column name used for grouping
-   * @param groupByColumn4 The fourth column name used for grouping
+   * @param groupByColumn1 The first column name used for grouping, or a group with its own bucket limit
+   * @param groupByColumn2 The second column name used for grouping, or a group with its own bucket limit
+   * @param groupByColumn3 The third column name used for grouping, or a group with its own bucket limit
+   * @param groupByColumn4 The fourth column name used for grouping, or a group with its own bucket limit
    * @returns Array of grouped data with all four column values and count
    */
-  extractGroupedData4Columns(result: any, groupByColumn1: string, groupByColumn2: string, groupByColumn3: string, groupByColumn4: string): any[] {
-    if (!result?.results) return [];
-
-    // Extract the dynamic query ID
-    const queryId = Object.keys(result.results)[0];
-    const queryResult = result.results[queryId];
-
-    if (!queryResult?.search_types) return [];
-
-    // Extract the dynamic search type ID
-    const searchTypeId = Object.keys(queryResult.search_types)[0];
-    const searchType = queryResult.search_types[searchTypeId];
-
-    if (!searchType?.rows) return [];
-
-    const rows = searchType.rows as any[];
-
-    const output: any[] = [];
-
-    for (const row of rows) {
-      // Skip the global total row: it has no key (empty array) and is "non-leaf"
-      if (row.source !== "leaf") continue;
-
-      // For 4 columns, key is an array with 4 values: [column1Value, column2Value, column3Value, column4Value]
-      const key = row.key || [];
-      const column1Value = key[0] ?? "(Unknown)";
-      const column2Value = key[1] ?? "(Unknown)";
-      const column3Value = key[2] ?? "(Unknown)";
-      const column4Value = key[3] ?? "(Unknown)";
-      const value = row.values?.[0]?.value ?? 0;
-
-      output.push({
-        [groupByColumn1]: column1Value,
-        [groupByColumn2]: column2Value,
-        [groupByColumn3]: column3Value,
-        [groupByColumn4]: column4Value,
-        count: value,
-      });
-    }
-
-    return output;
+  extractGroupedData4Columns(result: SearchJob, groupByColumn1: string | PivotGroup, groupByColumn2: string | PivotGroup, groupByColumn3: string | PivotGroup, groupByColumn4: string | PivotGroup): any[] {
+    return this.toGroupedData(this.extractPivotRows(result, { name: 'grouped_count_4columns', otherRow: true, rowGroups: [groupByColumn1, groupByColumn2, groupByColumn3, groupByColumn4] }));
   }
 
   /**
@@ -897,41 +1878,36 @@ export class GraylogApiService {
    * @param query The search query string
    * @param from Start time (ISO string or epoch milliseconds)
    * @param to End time (ISO string or epoch milliseconds)
-   * @param groupByColumn1 The first column name to group by
-   * @param groupByColumn2 The second column name to group by
-   * @param groupByColumn3 The third column name to group by
-   * @param groupByColumn4 The fourth column name to group by
-   * @param streamIds Optional array of stream IDs to filter by
-   * @returns Object containing the full result and grouped data
+   * @param groupByColumn1 The first column name to group by, or a group with its own bucket limit
+   * @param groupByColumn2 The second column name to group by, or a group with its own bucket limit
+   * @param groupByColumn3 The third column name to group by, or a group with its own bucket limit
+   * @param groupByColumn4 The fourth column name to group by, or a group with its own bucket limit
+   * @param streamIds Optional array of stream IDs or titles to filter by
+   * @param requestOptions Optional query name (used in errors) and abort signal
+   * @returns Object containing the full result, grouped data with an "(other)" row when buckets are missing, the coverage of the rows and the time windows that failed when split
    */
   async executeCountAndGroupBy4ColumnQueryByStreamIdsAndWait(
     query: string,
     from: string | number,
     to: string | number,
-    groupByColumn1: string,
-    groupByColumn2: string,
-    groupByColumn3: string,
-    groupByColumn4: string,
-    streamIds?: string[]
-  ): Promise<{ result: any; groupedData: any[] }> {
-    const executeResponse = await this.executeCountAndGroupBy4ColumnQueryByStreamIds(
-      query,
-      from,
-      to,
-      groupByColumn1,
-      groupByColumn2,
-      groupByColumn3,
-      groupByColumn4,
-      streamIds
-    );
-    
-    // Create a bound extractor function with the groupByColumn parameters
-    const extractor = (result: any) => this.extractGroupedData4Columns(result, groupByColumn1, groupByColumn2, groupByColumn3, groupByColumn4);
-    const { result, data: groupedData } = await this.executeQueryAndWait(executeResponse, extractor);
-    
+    groupByColumn1: string | PivotGroup,
+    groupByColumn2: string | PivotGroup,
+    groupByColumn3: string | PivotGroup,
+    groupByColumn4: string | PivotGroup,
+    streamIds?: string[],
+    requestOptions?: GraylogRequestOptions
+  ): Promise<{ result: SearchJob; groupedData: any[]; overflow: PivotOverflow; failedWindows: FailedWindow[] }> {
+    const { result, rows, overflow, failedWindows } = await this.executePivotQueryByStreamIdsAndWait(query, from, to, {
+      name: 'grouped_count_4columns',
+      rowGroups: [groupByColumn1, groupByColumn2, groupByColumn3, groupByColumn4],
+      otherRow: true,
+    }, streamIds, requestOptions);
+
     return {
       result: result,
-      groupedData: groupedData,
+      groupedData: this.toGroupedData(rows),
+      overflow: overflow,
+      failedWindows: failedWindows,
     };
   }
 }
@@ -0,0 +1,161 @@
+import { config } from '../config';
+import { GraylogQueryError } from './errors';
+
+/**
+ * How the API client authenticates against Graylog
+ * - basic: username and password on every request
+ * - token: access token sent as `<token>:token`
+ * - session: session created once from username and password, then sent as `<session id>:session`
+ */
+export type GraylogAuthMode = 'basic' | 'token' | 'session';
+
+const AUTH_MODES: GraylogAuthMode[] = ['basic', 'token', 'session'];
+
+/** Sessions are renewed when they expire within this margin */
+const SESSION_RENEW_MARGIN_MS = 60 * 1000;
+
+/**
+ * Builds the Authorization header of Graylog API requests and keeps the session alive in session mode
+ */
+export class GraylogAuth {
+  readonly mode: GraylogAuthMode;
+  private session: { id: string; validUntil: number } | null = null;
+  private pendingSession: Promise<{ id: string; validUntil: number }> | null = null;
+
+  constructor(mode: string = config.graylogAuthMode) {
+    if (!AUTH_MODES.includes(mode as GraylogAuthMode)) {
+      throw new Error(`Unknown GRAYLOG_AUTH_MODE "${mode}", expected one of: ${AUTH_MODES.join(', ')}`);
+    }
+    this.mode = mode as GraylogAuthMode;
+  }
+
+  /**
+   * Get the Authorization header value for the next request
+   * @param signal Optional abort signal, used while a session is created
+   * @returns Authorization header value
+   */
+  async getAuthorizationHeader(signal?: AbortSignal): Promise<string> {
+    switch (this.mode) {
+      case 'token':
+        if (!config.graylogAccessToken) {
+          throw new Error('GRAYLOG_ACCESS_TOKEN environment variable must be set when GRAYLOG_AUTH_MODE is token');
+        }
+        return this.basic(config.graylogAccessToken, 'token');
+      case 'session': {
+        const session = await this.getSession(signal);
+        return this.basic(session.id, 'session');
+      }
+      default:
+        return this.basic(config.graylogUsername, config.graylogPassword);
+    }
+  }
+
+  /**
+   * Forget the current session so the next request creates a new one
+   * Called when Graylog rejects the session (401) before it was expected to expire
+   */
+  invalidate(): void {
+    this.session = null;
+  }
+
+  /**
+   * Build a Basic auth header value
+   * @param username Username, token or session id
+   * @param password Password, or the literal 'token' / 'session'
+   * @returns Authorization header value
+   */
+  private basic(username: string, password: string): string {
+    return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+  }
+
+  /**
+   * Return the current session, creating a new one when missing or about to expire
+   * Concurrent callers share the same pending session request
+   * @param signal Optional abort signal
+   * @returns Session id and expiry time (epoch milliseconds)
+   */
+  private async getSession(signal?: AbortSignal): Promise<{ id: string; validUntil: number }> {
+    if (this.session && this.session.validUntil - SESSION_RENEW_MARGIN_MS > Date.now()) {
+      return this.session;
+    }
+    if (!this.pendingSession) {
+      this.pendingSession = this.createSession(signal).finally(() => {
+        this.pendingSession = null;
+      });
+    }
+    this.session = await this.pendingSession;
+    return this.session;
+  }
+
+  /**
+   * Create a session via /system/sessions with the configured username and password
+   * @param signal Optional abort signal
+   * @returns Session id and expiry time (epoch milliseconds)
+   */
+  private async createSession(signal?: AbortSignal): Promise<{ id: string; validUntil: number }> {
+    const endpoint = '/system/sessions';
+    if (!config.graylogUsername || !config.graylogPassword) {
+      throw new Error('GRAYLOG_USERNAME and GRAYLOG_PASSWORD environment variables must be set when GRAYLOG_AUTH_MODE is session');
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${config.graylogApiUrl}${endpoint}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Requested-By': 'client',
+        },
+        body: JSON.stringify({
+          username: config.graylogUsername,
+          password: config.graylogPassword,
+          host: new URL(config.graylogWebUrl).host,
+        }),
+        signal,
+      });
+    } catch (fetchError: any) {
+      throw new GraylogQueryError(fetchError?.cause?.code || fetchError?.message || 'Network error', {
+        endpoint,
+        retryable: !signal?.aborted,
+        cause: fetchError,
+      });
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new GraylogQueryError(`Failed to create session: ${response.statusText} - ${errorText}`, {
+        status: response.status,
+        endpoint,
+      });
+    }
+
+    // Older Graylog versions return the session id in the body, newer ones only as 'authentication' cookie
+    const data: any = await response.json().catch(() => ({}));
+    const cookie = response.headers.getSetCookie().find(item => item.startsWith('authentication='));
+    const id: string | undefined = data?.session_id || cookie?.split(';')[0].slice('authentication='.length);
+    if (!id) {
+      throw new GraylogQueryError('Failed to create session: no session id in response', { status: response.status, endpoint });
+    }
+
+    const validUntil = data?.valid_until ? new Date(data.valid_until).getTime() : NaN;
+    console.log(`Created Graylog session for ${config.graylogUsername}`);
+    return {
+      id,
+      // Fall back to Graylog's default session timeout of 8 hours
+      validUntil: Number.isNaN(validUntil) ? Date.now() + 8 * 60 * 60 * 1000 : validUntil,
+    };
+  }
+}
+
+let sharedAuth: GraylogAuth | null = null;
+
+/**
+ * Get the auth shared by all API clients, so a session is reused across blocks
+ * @returns Shared Graylog auth for the configured mode
+ */
+export function getGraylogAuth(): GraylogAuth {
+  if (!sharedAuth) {
+    sharedAuth = new GraylogAuth();
+  }
+  return sharedAuth;
+}
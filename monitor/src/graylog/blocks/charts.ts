@@ -0,0 +1,262 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Resvg } from '@resvg/resvg-js';
+import { DailyStatsEntry } from './daily-stats';
+import { HourlyEntry } from './hourly';
+
+/**
+ * One bar of a bar chart, null for a query that failed
+ */
+export type ChartBar = { label: string; value: number | null };
+
+/**
+ * Points of a line chart: one label per point and one list of values per line, null for a gap
+ */
+export type ChartLines = { labels: string[]; series: Record<string, Array<number | null>> };
+
+/** Line and bar colors, in series order */
+const PALETTE = ['#1f77b4', '#d62728', '#2ca02c', '#ff7f0e', '#9467bd', '#8c564b'];
+
+// DejaVu Sans is the sans-serif font of most Linux servers without Arial
+const FONT_FAMILY = 'font-family="Arial, Helvetica, DejaVu Sans, sans-serif"';
+const FONT = `${FONT_FAMILY} font-size="12"`;
+
+/**
+ * Escape text for an SVG document
+ * @param text Text
+ * @returns Escaped text
+ */
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Round the top of an axis up to 1, 2 or 5 times a power of ten
+ * @param value Largest value on the axis
+ * @returns Top of the axis, at least 1
+ */
+function niceMax(value: number): number {
+  if (value <= 0) return 1;
+  const power = Math.pow(10, Math.floor(Math.log10(value)));
+  const step = [1, 2, 5, 10].find(factor => factor * power >= value)!;
+  return step * power;
+}
+
+/**
+ * Format an axis or bar value, e.g. 1200 -> 1.2k
+ * @param value Number
+ * @returns Short label
+ */
+function formatValue(value: number): string {
+  if (Math.abs(value) >= 1e6) return `${+(value / 1e6).toFixed(1)}M`;
+  if (Math.abs(value) >= 1e3) return `${+(value / 1e3).toFixed(1)}k`;
+  return `${+value.toFixed(2)}`;
+}
+
+/**
+ * Cut a label to a number of characters
+ * @param label Label
+ * @param length Maximum length
+ * @returns Label, ending with an ellipsis when cut
+ */
+function truncate(label: string, length: number): string {
+  return label.length > length ? `${label.slice(0, length - 1)}…` : label;
+}
+
+/**
+ * Wrap chart elements in an SVG document with a white background and a title
+ * @param width Width in pixels
+ * @param height Height in pixels
+ * @param title Title shown at the top
+ * @param body SVG elements
+ * @returns SVG document
+ */
+function svgDocument(width: number, height: number, title: string, body: string[]): string {
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    `<text x="${width / 2}" y="22" text-anchor="middle" ${FONT_FAMILY} font-size="15" font-weight="bold">${escapeXml(title)}</text>`,
+    ...body,
+    '</svg>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Render a horizontal bar chart, e.g. the totals of a count section or the rows of a grouped query
+ * @param title Chart title
+ * @param bars Bars from top to bottom; a bar without value is labelled as failed instead of drawn
+ * @param emptyText Text shown when there is no bar (default: 'No data')
+ * @returns SVG document
+ */
+export function renderBarChart(title: string, bars: ChartBar[], emptyText: string = 'No data'): string {
+  const width = 800;
+  const labelWidth = 260;
+  const barHeight = 22;
+  const top = 40;
+  const plotWidth = width - labelWidth - 80;
+  const height = top + Math.max(bars.length, 1) * barHeight + 20;
+  const max = niceMax(Math.max(0, ...bars.map(bar => bar.value ?? 0)));
+
+  const body: string[] = [];
+  if (bars.length === 0) {
+    body.push(`<text x="${width / 2}" y="${top + 14}" text-anchor="middle" ${FONT} fill="#666666">${escapeXml(emptyText)}</text>`);
+  }
+  bars.forEach((bar, i) => {
+    const y = top + i * barHeight;
+    if (bar.value === null) {
+      body.push(
+        `<text x="${labelWidth - 8}" y="${y + 15}" text-anchor="end" ${FONT}>${escapeXml(truncate(bar.label, 40))}</text>`,
+        `<text x="${labelWidth + 6}" y="${y + 15}" ${FONT} fill="#d62728">Query failed</text>`
+      );
+      return;
+    }
+    const barWidth = Math.max(0, (bar.value / max) * plotWidth);
+    body.push(
+      `<text x="${labelWidth - 8}" y="${y + 15}" text-anchor="end" ${FONT}>${escapeXml(truncate(bar.label, 40))}</text>`,
+      `<rect x="${labelWidth}" y="${y + 3}" width="${barWidth.toFixed(1)}" height="${barHeight - 6}" fill="${PALETTE[0]}"/>`,
+      `<text x="${(labelWidth + barWidth + 6).toFixed(1)}" y="${y + 15}" ${FONT}>${formatValue(bar.value)}</text>`
+    );
+  });
+  return svgDocument(width, height, title, body);
+}
+
+/**
+ * Render a line chart, e.g. an hour-by-hour series or a daily trend
+ * @param title Chart title
+ * @param lines Labels of the x axis and values of each line
+ * @param emptyText Text shown when there is no value (default: 'No data')
+ * @returns SVG document
+ */
+export function renderLineChart(title: string, lines: ChartLines, emptyText: string = 'No data'): string {
+  const width = 800;
+  const height = 360;
+  const left = 60;
+  const right = 20;
+  const top = 50;
+  const bottom = 60;
+  const plotWidth = width - left - right;
+  const plotHeight = height - top - bottom;
+  const names = Object.keys(lines.series);
+  const values = names.flatMap(name => lines.series[name]).filter((value): value is number => value !== null);
+  const max = niceMax(Math.max(0, ...values));
+  const count = lines.labels.length;
+  const x = (i: number) => left + (count > 1 ? (i / (count - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => top + plotHeight - (value / max) * plotHeight;
+
+  const body: string[] = [];
+  // Horizontal grid with the value of each line
+  for (let tick = 0; tick <= 4; tick++) {
+    const value = (max / 4) * tick;
+    body.push(
+      `<line x1="${left}" y1="${y(value).toFixed(1)}" x2="${width - right}" y2="${y(value).toFixed(1)}" stroke="#e0e0e0"/>`,
+      `<text x="${left - 6}" y="${(y(value) + 4).toFixed(1)}" text-anchor="end" ${FONT}>${formatValue(value)}</text>`
+    );
+  }
+  // At most 12 labels on the x axis
+  const every = Math.max(1, Math.ceil(count / 12));
+  lines.labels.forEach((label, i) => {
+    if (i % every !== 0) return;
+    body.push(`<text x="${x(i).toFixed(1)}" y="${top + plotHeight + 18}" text-anchor="middle" ${FONT}>${escapeXml(label)}</text>`);
+  });
+  if (values.length === 0) {
+    body.push(`<text x="${width / 2}" y="${top + plotHeight / 2}" text-anchor="middle" ${FONT} fill="#666666">${escapeXml(emptyText)}</text>`);
+  }
+
+  names.forEach((name, n) => {
+    const color = PALETTE[n % PALETTE.length];
+    // A missing value starts a new segment
+    let d = '';
+    let pen = false;
+    lines.series[name].forEach((value, i) => {
+      if (value === null) {
+        pen = false;
+        return;
+      }
+      d += `${pen ? 'L' : 'M'}${x(i).toFixed(1)} ${y(value).toFixed(1)} `;
+      pen = true;
+    });
+    if (d) {
+      body.push(`<path d="${d.trim()}" fill="none" stroke="${color}" stroke-width="2"/>`);
+    }
+    lines.series[name].forEach((value, i) => {
+      if (value !== null) body.push(`<circle cx="${x(i).toFixed(1)}" cy="${y(value).toFixed(1)}" r="2.5" fill="${color}"/>`);
+    });
+    // Legend below the x axis
+    const legendX = left + n * 150;
+    body.push(
+      `<rect x="${legendX}" y="${height - 22}" width="12" height="12" fill="${color}"/>`,
+      `<text x="${legendX + 18}" y="${height - 12}" ${FONT}>${escapeXml(truncate(name, 20))}</text>`
+    );
+  });
+  return svgDocument(width, height, title, body);
+}
+
+/**
+ * Bars of a grouped query, largest groups first
+ * @param rows Grouped data as {...fields, count}
+ * @param limit Maximum number of bars
+ * @returns One bar per group, labelled with its field values
+ */
+export function toGroupedBars(rows: any[], limit: number = 15): ChartBar[] {
+  return [...rows]
+    .sort((a, b) => (b.count || 0) - (a.count || 0))
+    .slice(0, limit)
+    .map(row => ({
+      label: Object.keys(row).filter(key => key !== 'count').map(key => String(row[key])).join(' / '),
+      value: row.count || 0,
+    }));
+}
+
+/**
+ * Lines of an hour-by-hour series, one per value of the entries
+ * @param entries Hourly entries with a 'YYYY-MM-DD HH:mm' hour
+ * @returns Lines labelled by 'HH:mm'
+ */
+export function toHourlyLines(entries: HourlyEntry[]): ChartLines {
+  const names = Array.from(new Set(entries.flatMap(entry => Object.keys(entry).filter(key => key !== 'hour'))));
+  return {
+    labels: entries.map(entry => entry.hour.slice(11)),
+    series: Object.fromEntries(names.map(name => [name, entries.map(entry => typeof entry[name] === 'number' ? entry[name] as number : null)])),
+  };
+}
+
+/**
+ * Lines of daily stats over the days up to a date, a gap for each day without the stat
+ * @param history Daily stats entries
+ * @param date Last day, 'YYYY-MM-DD'
+ * @param statPaths Dotted paths of the stats to draw, e.g. 'order.success'
+ * @param days Number of days (default: 28)
+ * @returns Lines labelled by 'MM-DD'
+ */
+export function toTrendLines(history: DailyStatsEntry[], date: string, statPaths: string[], days: number = 28): ChartLines {
+  const end = new Date(`${date}T00:00:00Z`).getTime();
+  const dates = Array.from({ length: days }, (_, i) => new Date(end - (days - 1 - i) * 86400000).toISOString().slice(0, 10));
+  const byDate = new Map(history.map(entry => [entry.date, entry]));
+  const readStat = (entry: DailyStatsEntry | undefined, statPath: string): number | null => {
+    const value = statPath.split('.').reduce<any>((current, key) => current?.[key], entry);
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+  };
+  return {
+    labels: dates.map(day => day.slice(5)),
+    series: Object.fromEntries(statPaths.map(statPath => [statPath, dates.map(day => readStat(byDate.get(day), statPath))])),
+  };
+}
+
+/**
+ * Write a chart to the result folder as PNG, from where it is uploaded to S3 with the screenshots
+ * Teams cards only show PNG, JPEG and GIF images, so the SVG document is rasterized with the system fonts
+ * @param resultDir Result folder of the report
+ * @param fileName File name, e.g. chart-order-1.png
+ * @param svg SVG document
+ * @returns Path of the written file
+ */
+export function writeChart(resultDir: string, fileName: string, svg: string): string {
+  if (!fs.existsSync(resultDir)) {
+    fs.mkdirSync(resultDir, { recursive: true });
+  }
+  const chartPath = path.join(resultDir, fileName);
+  fs.writeFileSync(chartPath, new Resvg(svg).render().asPng());
+  console.log(`Chart saved: ${chartPath}`);
+  return chartPath;
+}
@@ -0,0 +1,62 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../../config';
+
+/**
+ * Stats of one day in daily-stats.json, one section per report, e.g. order, payment, eapi, openCheck
+ */
+export type DailyStatsEntry = { date: string; [key: string]: any };
+
+/** Location of the daily stats (DAILY_STATS_PATH) */
+export const DAILY_STATS_PATH = path.resolve(process.cwd(), config.dailyStatsPath);
+
+/**
+ * Read daily-stats.json, converting old formats to one entry per date
+ * Old formats: [{date, success, failed}] and {order: [{date, success, failed}]}
+ * @returns Entries sorted by date, empty when the file does not exist
+ */
+export function readDailyStats(): DailyStatsEntry[] {
+  if (!fs.existsSync(DAILY_STATS_PATH)) return [];
+  const parsed = JSON.parse(fs.readFileSync(DAILY_STATS_PATH, 'utf-8'));
+  const toOrderEntry = (item: any): DailyStatsEntry => ({
+    date: item.date,
+    order: {
+      success: item.success,
+      failed: item.failed
+    }
+  });
+
+  if (Array.isArray(parsed)) {
+    // Old format with direct success/failed, or already one entry per date
+    return parsed.length > 0 && 'success' in parsed[0] && !('order' in parsed[0]) ? parsed.map(toOrderEntry) : parsed;
+  }
+  if (parsed && typeof parsed === 'object' && Array.isArray(parsed.order)) {
+    return parsed.order.map(toOrderEntry);
+  }
+  return [];
+}
+
+/**
+ * Find the entry of a date, adding it in date order when missing
+ * @param dailyStats Entries, updated in place
+ * @param date Date as 'YYYY-MM-DD'
+ * @returns Entry of the date
+ */
+export function getDailyStatsEntry(dailyStats: DailyStatsEntry[], date: string): DailyStatsEntry {
+  let entry = dailyStats.find(item => item.date === date);
+  if (!entry) {
+    entry = { date };
+    dailyStats.push(entry);
+    dailyStats.sort((a, b) => a.date.localeCompare(b.date));
+  }
+  return entry;
+}
+
+/**
+ * Write daily-stats.json
+ * @param dailyStats Entries sorted by date
+ */
+export function writeDailyStats(dailyStats: DailyStatsEntry[]): void {
+  fs.mkdirSync(path.dirname(DAILY_STATS_PATH), { recursive: true });
+  fs.writeFileSync(DAILY_STATS_PATH, JSON.stringify(dailyStats, null, 2));
+}
@@ -0,0 +1,394 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CatalogQuery, readQueryCatalog } from '../catalog';
+import { DETECTORS } from './detectors';
+
+/**
+ * Count each query: one row with name, total and screenshot per query
+ */
+export type CountSection = {
+  kind: 'count';
+  /** Catalog query ids */
+  queries: string[];
+  /** Name of the block value each query count is added to, by query id */
+  values?: Record<string, string>;
+  /** Fixed screenshot file name, only for a single query */
+  screenshot?: string;
+};
+
+/**
+ * Count each query grouped by its groupBy fields: a summary row, the screenshot and the grouped rows per query
+ */
+export type GroupedSection = {
+  kind: 'grouped';
+  queries: string[];
+  /** Name of the block value each query total is added to, by query id */
+  values?: Record<string, string>;
+  screenshot?: string;
+  /** Columns added to the summary row, by series id of the query, e.g. { "uniqueCustomers": "card(eapi_customer_id)" } */
+  summary?: Record<string, string>;
+  /** Section detectors applied to the grouped rows */
+  detectors?: string[];
+};
+
+/**
+ * Table of the series of each query per group, without screenshot
+ */
+export type PivotSection = {
+  kind: 'pivot';
+  queries: string[];
+  /** Table columns by series id of the query, values are rounded, e.g. { "avgMs": "avg(eapi_duration)" } */
+  columns: Record<string, string>;
+};
+
+/**
+ * Hour-by-hour counts, stored as a block value and added as a table
+ * Either sums the histograms of queries per series, or splits the histogram of one query into success and failed
+ */
+export type HourlySection = {
+  kind: 'hourly';
+  /** Name of the block value receiving the hourly entries */
+  value: string;
+  /** Query ids per series, e.g. { "total": [...], "failed": [...] } */
+  series?: Record<string, string[]>;
+  /** Query whose first group by field value `success` counts as success, every other value as failed */
+  splitBy?: { query: string; success: string };
+};
+
+export type BlockSection = CountSection | GroupedSection | PivotSection | HourlySection;
+
+/**
+ * Stats persisted by a block: keys of the daily stats entry mapped to block value names, nested objects allowed
+ */
+export type StatsTemplate = { [key: string]: string | StatsTemplate };
+
+/**
+ * A report block: the queries it runs, in order, and what it persists and detects
+ */
+export type BlockDefinition = {
+  /** Unique id, also the screenshot prefix: query-<id>-<n>-result.png */
+  id: string;
+  /** Separator row added before the block */
+  separator?: string;
+  /** Run the count, grouped and hourly queries in a single Graylog search */
+  batch?: boolean;
+  sections: BlockSection[];
+  /** Block detectors applied to the values and the previous daily stats */
+  detectors?: string[];
+  /** Values written to daily-stats.json for the report date */
+  stats?: StatsTemplate;
+  /** Tag of the derived metrics computed over the stats, e.g. 'daily-order' */
+  metrics?: string;
+};
+
+/** Location of the block definitions */
+export const BLOCKS_PATH = path.resolve(process.cwd(), 'src', 'graylog', 'blocks.json');
+
+const BLOCK_ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/** Name of a block value */
+const VALUE_NAME_PATTERN = /^[A-Za-z_]\w*$/;
+
+const SECTION_KEYS: Record<BlockSection['kind'], string[]> = {
+  count: ['kind', 'queries', 'values', 'screenshot'],
+  grouped: ['kind', 'queries', 'values', 'screenshot', 'summary', 'detectors'],
+  pivot: ['kind', 'queries', 'columns'],
+  hourly: ['kind', 'value', 'series', 'splitBy'],
+};
+
+const BLOCK_KEYS: Array<keyof BlockDefinition> = ['id', 'separator', 'batch', 'sections', 'detectors', 'stats', 'metrics'];
+
+/**
+ * Check whether a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a map of names to strings
+ * @param value Raw map
+ * @param label Label of the map in problem messages
+ * @param checkKey Problem of a key, or null when the key is valid
+ * @param checkValue Problem of a value, or null when the value is valid
+ * @returns Problems found
+ */
+function checkMap(
+  value: unknown,
+  label: string,
+  checkKey: (key: string) => string | null,
+  checkValue: (value: string) => string | null
+): string[] {
+  if (!isObject(value)) return [`${label} must be an object`];
+  return Object.entries(value).flatMap(([key, item]) => {
+    const problem = checkKey(key) ?? (typeof item === 'string' ? checkValue(item) : 'must be a string');
+    return problem ? [`${label}: "${key}" ${problem}`] : [];
+  });
+}
+
+/**
+ * Check one section of a block
+ * @param section Raw section
+ * @param label Label of the section in problem messages
+ * @param queries Catalog queries by id
+ * @param produced Receives the names of the values the section produces
+ * @returns Problems found, empty when the section is valid
+ */
+function checkSection(section: any, label: string, queries: Map<string, CatalogQuery>, produced: Set<string>): string[] {
+  if (!isObject(section) || !Object.prototype.hasOwnProperty.call(SECTION_KEYS, section.kind)) {
+    return [`${label}: "kind" must be one of ${Object.keys(SECTION_KEYS).join(', ')}`];
+  }
+  const problems: string[] = [];
+  const valueName = (name: string) => VALUE_NAME_PATTERN.test(name) ? null : 'is not a valid value name';
+  const queryId = (id: string) => queries.has(id) ? null : 'is not a catalog query id';
+
+  if (section.kind === 'hourly') {
+    if (typeof section.value !== 'string' || !VALUE_NAME_PATTERN.test(section.value)) {
+      problems.push(`${label}: "value" must be a value name`);
+    } else {
+      produced.add(section.value);
+    }
+    if ((section.series === undefined) === (section.splitBy === undefined)) {
+      problems.push(`${label}: expected either "series" or "splitBy"`);
+    }
+    if (section.series !== undefined) {
+      if (!isObject(section.series) || Object.keys(section.series).length === 0) {
+        problems.push(`${label}: "series" must be an object of name: [query id, ...]`);
+      } else {
+        Object.entries(section.series).forEach(([name, ids]) => {
+          if (!VALUE_NAME_PATTERN.test(name)) problems.push(`${label}: series "${name}" is not a valid name`);
+          if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string' || !queries.has(id))) {
+            problems.push(`${label}: series "${name}" must be a non-empty array of catalog query ids`);
+          }
+        });
+      }
+    }
+    if (section.splitBy !== undefined) {
+      const query = queries.get(section.splitBy?.query);
+      if (!query || typeof section.splitBy.success !== 'string') {
+        problems.push(`${label}: "splitBy" must be { "query": <catalog query id>, "success": <group value> }`);
+      } else if (!query.groupBy || query.groupBy.length === 0) {
+        problems.push(`${label}: "splitBy" query "${query.id}" has no groupBy`);
+      }
+    }
+  } else if (!Array.isArray(section.queries) || section.queries.length === 0 || section.queries.some((id: unknown) => typeof id !== 'string')) {
+    problems.push(`${label}: "queries" must be a non-empty array of catalog query ids`);
+  } else {
+    const sectionQueries: CatalogQuery[] = [];
+    section.queries.forEach((id: string) => {
+      const query = queries.get(id);
+      if (!query) {
+        problems.push(`${label}: unknown query id "${id}"`);
+      } else {
+        sectionQueries.push(query);
+      }
+    });
+    if (section.values !== undefined) {
+      problems.push(...checkMap(section.values, `${label}: "values"`, key => section.queries.includes(key) ? null : 'is not a query of the section', valueName));
+      if (isObject(section.values)) Object.values(section.values).forEach(name => produced.add(name as string));
+    }
+    if (section.screenshot !== undefined && (typeof section.screenshot !== 'string' || section.queries.length !== 1)) {
+      problems.push(`${label}: "screenshot" must be a file name and needs a single query`);
+    }
+    if (section.kind === 'grouped') {
+      sectionQueries
+        .filter(query => !query.groupBy || query.groupBy.length === 0)
+        .forEach(query => problems.push(`${label}: query "${query.id}" has no groupBy`));
+    }
+    const hasSeries = (seriesId: string) => sectionQueries.every(query => query.series?.includes(seriesId)) ? null : 'is not a series of every query';
+    if (section.kind === 'grouped' && section.summary !== undefined) {
+      problems.push(...checkMap(section.summary, `${label}: "summary"`, () => null, hasSeries));
+    }
+    if (section.kind === 'pivot') {
+      problems.push(...checkMap(section.columns, `${label}: "columns"`, () => null, hasSeries));
+    }
+    if (section.kind === 'grouped' && section.detectors !== undefined) {
+      problems.push(...checkDetectors(section.detectors, 'section', label, produced));
+    }
+  }
+
+  Object.keys(section)
+    .filter(key => !SECTION_KEYS[section.kind as BlockSection['kind']].includes(key))
+    .forEach(key => problems.push(`${label}: unknown key "${key}"`));
+  return problems;
+}
+
+/**
+ * Check the detectors of a section or block
+ * @param names Raw detector names
+ * @param scope Scope the detectors must have
+ * @param label Label of the owner in problem messages
+ * @param produced Receives the names of the values the detectors produce
+ * @returns Problems found
+ */
+function checkDetectors(names: unknown, scope: 'section' | 'block', label: string, produced: Set<string>): string[] {
+  if (!Array.isArray(names)) return [`${label}: "detectors" must be an array of detector names`];
+  return names.flatMap(name => {
+    const detector = typeof name === 'string' && Object.prototype.hasOwnProperty.call(DETECTORS, name) ? DETECTORS[name] : null;
+    if (!detector) return [`${label}: unknown detector "${name}", known: ${Object.keys(DETECTORS).join(', ')}`];
+    if (detector.scope !== scope) return [`${label}: detector "${name}" is a ${detector.scope} detector`];
+    detector.outputs.forEach(output => produced.add(output));
+    return [];
+  });
+}
+
+/**
+ * Check that every value of a stats template is produced by the block
+ * @param template Raw stats template
+ * @param label Label of the template in problem messages
+ * @param produced Names of the values the block produces
+ * @returns Problems found
+ */
+function checkStats(template: unknown, label: string, produced: Set<string>): string[] {
+  if (!isObject(template) || Object.keys(template).length === 0) return [`${label} must be a non-empty object`];
+  return Object.entries(template).flatMap(([key, value]) => {
+    if (isObject(value)) return checkStats(value, `${label}.${key}`, produced);
+    if (typeof value !== 'string') return [`${label}.${key} must be a value name or an object`];
+    return produced.has(value) ? [] : [`${label}.${key}: no section or detector produces the value "${value}"`];
+  });
+}
+
+/**
+ * Check one block definition against the schema
+ * @param entry Raw block definition
+ * @param label Label of the block in problem messages
+ * @param queries Catalog queries by id
+ * @returns Problems found, empty when the block is valid
+ */
+function checkBlock(entry: any, label: string, queries: Map<string, CatalogQuery>): string[] {
+  if (!isObject(entry)) return [`${label}: expected an object`];
+  const problems: string[] = [];
+  if (typeof entry.id !== 'string' || !BLOCK_ID_PATTERN.test(entry.id)) {
+    problems.push(`${label}: id must be lowercase words separated by "-", e.g. "open-check"`);
+  }
+  if (entry.separator !== undefined && typeof entry.separator !== 'string') {
+    problems.push(`${label}: "separator" must be a string`);
+  }
+  if (entry.batch !== undefined && typeof entry.batch !== 'boolean') {
+    problems.push(`${label}: "batch" must be true or false`);
+  }
+  const produced = new Set<string>();
+  if (!Array.isArray(entry.sections) || entry.sections.length === 0) {
+    problems.push(`${label}: "sections" must be a non-empty array`);
+  } else {
+    entry.sections.forEach((section: unknown, index: number) => {
+      problems.push(...checkSection(section, `${label}: sections[${index}]`, queries, produced));
+    });
+  }
+  if (entry.detectors !== undefined) {
+    problems.push(...checkDetectors(entry.detectors, 'block', label, produced));
+  }
+  if (entry.stats !== undefined) {
+    problems.push(...checkStats(entry.stats, `${label}: stats`, produced));
+  }
+  if (entry.metrics !== undefined && (typeof entry.metrics !== 'string' || entry.stats === undefined)) {
+    problems.push(`${label}: "metrics" must be a metric tag and needs "stats"`);
+  }
+  Object.keys(entry)
+    .filter(key => !BLOCK_KEYS.includes(key as keyof BlockDefinition))
+    .forEach(key => problems.push(`${label}: unknown key "${key}"`));
+  return problems;
+}
+
+/**
+ * Validate the parsed content of a block definitions file
+ * @param content Parsed JSON content
+ * @param source File the content was read from, used in errors
+ * @param queries Catalog queries the blocks refer to
+ * @returns Block definitions
+ * @throws Error listing every schema, duplicate id and reference problem
+ */
+export function parseBlockDefinitions(content: unknown, source: string, queries: CatalogQuery[]): BlockDefinition[] {
+  const entries = (content as any)?.blocks;
+  if (!Array.isArray(entries)) {
+    throw new Error(`Invalid block definitions ${source}: expected { "blocks": [...] }`);
+  }
+  const queriesById = new Map(queries.map(query => [query.id, query]));
+  const problems: string[] = [];
+  Object.keys(content as object)
+    .filter(key => key !== 'blocks')
+    .forEach(key => problems.push(`unknown top-level key "${key}"`));
+
+  const seen = new Set<string>();
+  entries.forEach((entry: any, index: number) => {
+    const label = typeof entry?.id === 'string' ? `block "${entry.id}"` : `blocks[${index}]`;
+    problems.push(...checkBlock(entry, label, queriesById));
+    if (typeof entry?.id === 'string') {
+      if (seen.has(entry.id)) {
+        problems.push(`${label}: duplicate id`);
+      }
+      seen.add(entry.id);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid block definitions ${source}:\n- ${problems.join('\n- ')}`);
+  }
+  return entries;
+}
+
+/**
+ * Read and validate a block definitions file against the query catalog
+ * @param filePath Block definitions file (default: src/graylog/blocks.json)
+ * @returns Block definitions
+ */
+export function readBlockDefinitions(filePath: string = BLOCKS_PATH): BlockDefinition[] {
+  let content: unknown;
+  try {
+    content = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Failed to read block definitions ${filePath}: ${error.message}`);
+  }
+  return parseBlockDefinitions(content, filePath, readQueryCatalog().queries);
+}
+
+/**
+ * Get the catalog query ids a block runs
+ * @param definition Block definition
+ * @returns Unique query ids in order of first use
+ */
+export function blockQueryIds(definition: BlockDefinition): string[] {
+  const ids = definition.sections.flatMap(section => {
+    if (section.kind !== 'hourly') return section.queries;
+    return section.series ? Object.values(section.series).flat() : [section.splitBy!.query];
+  });
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Get the catalog query ids a block value is computed from
+ * @param definition Block definition
+ * @param value Value name, e.g. 'failed'
+ * @returns Query ids of the sections whose values, section detectors or hourly entries produce the value
+ */
+export function valueQueryIds(definition: BlockDefinition, value: string): string[] {
+  const ids = definition.sections.flatMap(section => {
+    if (section.kind === 'hourly') {
+      if (section.value !== value) return [];
+      return section.series ? Object.values(section.series).flat() : [section.splitBy!.query];
+    }
+    if (section.kind === 'pivot') return [];
+    const fromDetectors = section.kind === 'grouped' && (section.detectors ?? []).some(name => DETECTORS[name].outputs.includes(value));
+    return section.queries.filter(id => fromDetectors || section.values?.[id] === value);
+  });
+  return Array.from(new Set(ids));
+}
+
+let blocks: Map<string, BlockDefinition> | null = null;
+
+/**
+ * Look up a block definition by id, loading the definitions once per process
+ * @param id Block id, e.g. 'eapi'
+ * @returns Block definition
+ * @throws Error when there is no block with this id
+ */
+export function getBlock(id: string): BlockDefinition {
+  if (!blocks) {
+    blocks = new Map(readBlockDefinitions().map(definition => [definition.id, definition]));
+  }
+  const definition = blocks.get(id);
+  if (!definition) {
+    throw new Error(`Unknown block id "${id}" in ${BLOCKS_PATH}`);
+  }
+  return definition;
+}
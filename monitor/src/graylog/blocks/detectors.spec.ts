@@ -0,0 +1,65 @@
+import { expect, test } from '@playwright/test';
+import { GraylogApiService, OTHER_BUCKET } from '../api.service';
+import { SearchJob } from '../types';
+import { applySectionDetector } from './detectors';
+
+/**
+ * Search job with a grouped count whose leaf rows do not cover every matching message, as when the pivot limit is reached
+ * @param leaves Count per field value
+ * @param total Matching messages, above the sum of the leaves
+ * @returns Search job as returned by Graylog
+ */
+function overflowingSearchJob(leaves: Record<string, number>, total: number): SearchJob {
+  const row = (key: string[], count: number, source: string) => ({ key, source, values: [{ key: ['count()'], value: count, rollup: true, source: 'row-leaf' }] });
+  return {
+    execution: { done: true, cancelled: false, completed_exceptionally: false },
+    results: {
+      query: {
+        search_types: {
+          grouped: {
+            id: 'grouped',
+            type: 'pivot',
+            total,
+            rows: [row([], total, 'non-leaf'), ...Object.entries(leaves).map(([value, count]) => row([value], count, 'leaf'))],
+          },
+        },
+      },
+    },
+  } as unknown as SearchJob;
+}
+
+/**
+ * Grouped rows of an overflowing pivot in the format the report blocks pass to section detectors
+ * @param field Group by field
+ * @param leaves Count per field value
+ * @param total Matching messages, above the sum of the leaves
+ * @returns Rows as {field, count}, ending with the "(other)" row
+ */
+function overflowingRows(field: string, leaves: Record<string, number>, total: number): any[] {
+  const graylogApi = new GraylogApiService();
+  const { rows, overflow } = graylogApi.extractPivot(
+    overflowingSearchJob(leaves, total),
+    { name: 'grouped_count', rowGroups: [field], otherRow: true },
+    { queryId: 'query', searchTypeId: 'grouped' }
+  );
+  expect(overflow.other).toBe(total - Object.values(leaves).reduce((sum, count) => sum + count, 0));
+  return rows.map(row => ({ ...row.fields, count: row.count }));
+}
+
+test.describe('Section detectors', () => {
+  test('should not count the (other) row of an overflowing pivot as failed orders', async () => {
+    const rows = overflowingRows('eapi_err_desc', { '(Empty Value)': 90, 'Check is closed.': 6 }, 150);
+    expect(rows.some(row => row.eapi_err_desc === OTHER_BUCKET)).toBe(true);
+
+    const output = applySectionDetector('empty-error-success', { rows, fields: ['eapi_err_desc'], values: {}, history: [], date: '2025-11-30' });
+    expect(output.values).toEqual({ success: 90, failed: 6 });
+  });
+
+  test('should not count the (other) row of an overflowing pivot as other HTTP errors', async () => {
+    const rows = overflowingRows('eapi_http_status', { '500': 20, '404': 3 }, 40);
+
+    const output = applySectionDetector('http-status-classes', { rows, fields: ['eapi_http_status'], values: {}, history: [], date: '2025-11-30' });
+    expect(output.values).toMatchObject({ errors4xx: 3, errors5xx: 20, errorsOther: 0 });
+    expect(output.values!.httpErrors.map((item: any) => item.status)).not.toContain(OTHER_BUCKET);
+  });
+});
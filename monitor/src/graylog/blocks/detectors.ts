@@ -0,0 +1,333 @@
+import { OTHER_BUCKET } from '../api.service';
+import { DailyStatsEntry } from './daily-stats';
+
+/**
+ * Input of a detector
+ */
+export type DetectorInput = {
+  /** Grouped rows of the section query as {...fields, count}; empty for block detectors */
+  rows: any[];
+  /** Group by fields of the section query, outermost first */
+  fields: string[];
+  /** Values collected by the block so far */
+  values: Record<string, any>;
+  /** Daily stats before the entry of the report date is updated; empty for section detectors */
+  history: DailyStatsEntry[];
+  /** Report date as 'YYYY-MM-DD' */
+  date: string;
+};
+
+/**
+ * Output of a detector
+ */
+export type DetectorOutput = {
+  /** Values added to the block, e.g. to persist them in the stats */
+  values?: Record<string, any>;
+  /** Tables added to the report in {type, value} format */
+  tables?: any[][];
+};
+
+/**
+ * A detector applied by a block definition
+ * Section detectors run on the grouped rows of each query of a grouped section, and their outputs are null when the query fails;
+ * block detectors run once before the stats are written
+ */
+export type Detector = {
+  scope: 'section' | 'block';
+  /** Names of the values the detector adds */
+  outputs: string[];
+  detect: (input: DetectorInput) => DetectorOutput;
+};
+
+function calculateMinOrderNotification(
+  currentDate: string,
+  totalOrders: number,
+  successOrders: number,
+  orderData: Array<{ date: string; success: number; failed: number }>
+): { notify: boolean; reason: string } {
+  const reasons: string[] = [];
+  let shouldNotify = false;
+
+  // Condition 1: Check if total or success is in top 10% lowest
+  // if (orderData.length > 0) {
+  //   // Get all historical totals and successes
+  //   const allTotals = orderData.map(item => item.success + item.failed).filter(v => v > 0);
+  //   const allSuccesses = orderData.map(item => item.success).filter(v => v > 0);
+    
+  //   if (allTotals.length > 0 && allSuccesses.length > 0) {
+  //     // Sort to find 10th percentile
+  //     const sortedTotals = [...allTotals].sort((a, b) => a - b);
+  //     const sortedSuccesses = [...allSuccesses].sort((a, b) => a - b);
+      
+  //     // Calculate 10th percentile index (10% of data)
+  //     const percentile10Index = Math.max(0, Math.floor(sortedTotals.length * 0.1));
+  //     const percentile10Total = sortedTotals[percentile10Index];
+  //     const percentile10Success = sortedSuccesses[percentile10Index];
+      
+  //     // Check if current values are in top 10% lowest
+  //     if (successOrders <= percentile10Success) {
+  //       shouldNotify = true;
+  //       reasons.push(`Successful orders (${successOrders}) is in top 10% lowest (threshold: ${percentile10Success})`);
+  //     }
+  //   }
+  // }
+
+  // Condition 2: Check if total or success is lower than 4 previous 7-day periods by more than 200
+  const currentDateObj = new Date(currentDate);
+  const previousPeriods: string[] = [];
+  
+  // Calculate dates for 4 previous 7-day periods (7, 14, 21, 28 days ago)
+  for (let daysAgo = 7; daysAgo <= 28; daysAgo += 7) {
+    const previousDate = new Date(currentDateObj);
+    previousDate.setDate(previousDate.getDate() - daysAgo);
+    const previousDateStr = previousDate.toISOString().split('T')[0];
+    previousPeriods.push(previousDateStr);
+  }
+  
+  // Find data for previous periods
+  const previousData = previousPeriods.map(date => {
+    return orderData.find(item => item.date === date);
+  }).filter(item => item !== undefined) as Array<{ date: string; success: number; failed: number }>;
+  
+  // Compare with each previous period
+  previousData.forEach(prev => {
+    const prevTotal = prev.success + prev.failed;
+    const prevSuccess = prev.success;
+    const totalDiff = prevTotal - totalOrders;
+    const successDiff = prevSuccess - successOrders;
+    
+    if (successDiff > 200) {
+      shouldNotify = true;
+      reasons.push(`Successful orders (${successOrders}) is ${successDiff} lower than ${prev.date} (${prevSuccess})`);
+    }
+  });
+
+  // Build reason string
+  shouldNotify = reasons.length >= 4;
+  let reason = '';
+  if (shouldNotify) {
+    reason = reasons.join('; ');
+  } else {
+    reason = 'No conditions met: Total and successful orders are within normal range';
+  }
+
+  return {
+    notify: shouldNotify,
+    reason: reason
+  };
+}
+
+function calculateMaxOrderNotification(
+  currentDate: string,
+  totalOrders: number,
+  successOrders: number,
+  orderData: Array<{ date: string; success: number; failed: number }>
+): { notify: boolean; reason: string } {
+  const reasons: string[] = [];
+  // let shouldNotify = false;
+
+  // Condition 1: Check if total or success is in top 5% highest
+  // if (orderData.length > 0) {
+  //   // Get all historical totals and successes
+  //   const allTotals = orderData.map(item => item.success + item.failed).filter(v => v > 0);
+  //   const allSuccesses = orderData.map(item => item.success).filter(v => v > 0);
+    
+  //   if (allTotals.length > 0 && allSuccesses.length > 0) {
+  //     // Sort to find 95th percentile (top 5%)
+  //     const sortedTotals = [...allTotals].sort((a, b) => a - b);
+  //     const sortedSuccesses = [...allSuccesses].sort((a, b) => a - b);
+      
+  //     // Calculate 95th percentile index (95% of data, meaning top 5%)
+  //     const percentile95Index = Math.max(0, Math.floor(sortedTotals.length * 0.95));
+  //     const percentile95Total = sortedTotals[percentile95Index];
+  //     const percentile95Success = sortedSuccesses[percentile95Index];
+      
+  //     // Check if current values are in top 5% highest
+  //     if (totalOrders >= percentile95Total) {
+  //       shouldNotify = true;
+  //       reasons.push(`Total orders (${totalOrders}) is in top 5% highest (threshold: ${percentile95Total})`);
+  //     }
+      
+  //     if (successOrders >= percentile95Success) {
+  //       shouldNotify = true;
+  //       reasons.push(`Successful orders (${successOrders}) is in top 5% highest (threshold: ${percentile95Success})`);
+  //     }
+  //   }
+  // }
+
+  // Condition 2: Check if total or success is higher than 7 previous 7-day periods by more than 200
+  const currentDateObj = new Date(currentDate);
+  const previousPeriods: string[] = [];
+  
+  // Calculate dates for 7 previous 7-day periods (7, 14, 21, 28, 35, 42, 49 days ago)
+  for (let daysAgo = 7; daysAgo <= 49; daysAgo += 7) {
+    const previousDate = new Date(currentDateObj);
+    previousDate.setDate(previousDate.getDate() - daysAgo);
+    const previousDateStr = previousDate.toISOString().split('T')[0];
+    previousPeriods.push(previousDateStr);
+  }
+  
+  // Find data for previous periods
+  const previousData = previousPeriods.map(date => {
+    return orderData.find(item => item.date === date);
+  }).filter(item => item !== undefined) as Array<{ date: string; success: number; failed: number }>;
+  
+  // Compare with each previous period
+  previousData.forEach(prev => {
+    const prevTotal = prev.success + prev.failed;
+    const prevSuccess = prev.success;
+    const totalDiff = totalOrders - prevTotal;
+    const successDiff = successOrders - prevSuccess;
+    
+    if (totalDiff > 200) {
+      // shouldNotify = true;
+      reasons.push(`Total orders (${totalOrders}) is ${totalDiff} higher than ${prev.date} (${prevTotal}), difference > 200`);
+    }
+    
+    if (successDiff > 200) {
+      // shouldNotify = true;
+      reasons.push(`Successful orders (${successOrders}) is ${successDiff} higher than ${prev.date} (${prevSuccess}), difference > 200`);
+    }
+  });
+
+  // Build reason string
+  let reason = '';
+  const shouldNotify = reasons.length >= 7;
+  if (shouldNotify) {
+    reason = reasons.join('; ');
+  } else {
+    reason = 'No conditions met: Total and successful orders are within normal range';
+  }
+
+  return {
+    notify: shouldNotify,
+    reason: reason
+  };
+}
+
+/**
+ * Build the report table of an order notification
+ * @param name Notification name
+ * @param notification Result of the notification check
+ * @returns Table with one row
+ */
+function buildNotificationTable(name: string, notification: { notify: boolean; reason: string }): any[] {
+  console.log(`\n${name}:`, JSON.stringify(notification, null, 2));
+  return [{
+    Name: { type: 'text', value: name },
+    Notify: { type: 'text', value: notification.notify },
+    Reason: { type: 'text', value: notification.reason }
+  }];
+}
+
+/**
+ * Order totals of the previous days, in the format expected by the notification checks
+ * @param history Daily stats
+ * @returns Success and failed orders per date, without the days whose order queries failed
+ */
+function orderHistory(history: DailyStatsEntry[]): Array<{ date: string; success: number; failed: number }> {
+  return history.filter(item => typeof item.order?.success === 'number').map(item => ({
+    date: item.date,
+    success: item.order?.success || 0,
+    failed: item.order?.failed || 0
+  }));
+}
+
+/** Notification of a day whose order queries failed, so that the missing orders are not read as a drop to 0 */
+const NO_ORDER_DATA = { notify: false, reason: 'No data: the order queries failed, see the data problems' };
+
+/**
+ * Detectors by the name block definitions refer to them with
+ */
+export const DETECTORS: Record<string, Detector> = {
+  /** Sum the counts of the first group by field (an HTTP status) into 4xx, 5xx and other errors */
+  'http-status-classes': {
+    scope: 'section',
+    outputs: ['errors4xx', 'errors5xx', 'errorsOther', 'httpErrors'],
+    detect: ({ rows, fields }) => {
+      let count4xx = 0;
+      let count5xx = 0;
+      let countOther = 0;
+      const httpErrors: Array<{ status: number | string; count: number }> = [];
+      rows.forEach(item => {
+        const httpStatus = item[fields[0]];
+        const count = item.count || 0;
+        httpErrors.push({ status: httpStatus, count: count });
+        // Statuses that are missing or not a number count as other
+        const statusNum = typeof httpStatus === 'string' ? parseInt(httpStatus, 10) : httpStatus;
+        if (typeof statusNum === 'number' && statusNum >= 400 && statusNum < 500) {
+          count4xx += count;
+        } else if (typeof statusNum === 'number' && statusNum >= 500 && statusNum < 600) {
+          count5xx += count;
+        } else {
+          countOther += count;
+        }
+      });
+      console.log(`4xx Errors: ${count4xx}, 5xx Errors: ${count5xx}, Other: ${countOther}`);
+      return { values: { errors4xx: count4xx, errors5xx: count5xx, errorsOther: countOther, httpErrors } };
+    },
+  },
+
+  /** Split the counts of the first group by field into success ("(Empty Value)", no error) and failed */
+  'empty-error-success': {
+    scope: 'section',
+    outputs: ['success', 'failed'],
+    detect: ({ rows, fields }) => {
+      let success = 0;
+      let failed = 0;
+      rows.forEach(item => {
+        if (item[fields[0]] === '(Empty Value)') {
+          success += item.count || 0;
+        } else {
+          failed += item.count || 0;
+        }
+      });
+      return { values: { success, failed } };
+    },
+  },
+
+  /** Notify when successful orders are more than 200 below each of the 4 previous same weekdays; reads the success and failed values */
+  'min-order-volume': {
+    scope: 'block',
+    outputs: [],
+    detect: ({ values, history, date }) => {
+      if (values.success === null || values.failed === null) {
+        return { tables: [buildNotificationTable('minOrderNotification', NO_ORDER_DATA)] };
+      }
+      const success = values.success || 0;
+      const notification = calculateMinOrderNotification(date, success + (values.failed || 0), success, orderHistory(history));
+      return { tables: [buildNotificationTable('minOrderNotification', notification)] };
+    },
+  },
+
+  /** Notify when total and successful orders are more than 200 above the 7 previous same weekdays; reads the success and failed values */
+  'max-order-volume': {
+    scope: 'block',
+    outputs: [],
+    detect: ({ values, history, date }) => {
+      if (values.success === null || values.failed === null) {
+        return { tables: [buildNotificationTable('maxOrderNotification', NO_ORDER_DATA)] };
+      }
+      const success = values.success || 0;
+      const notification = calculateMaxOrderNotification(date, success + (values.failed || 0), success, orderHistory(history));
+      return { tables: [buildNotificationTable('maxOrderNotification', notification)] };
+    },
+  },
+};
+
+/**
+ * Apply a section detector to the grouped rows of a query
+ * The "(other)" row of a table beyond the pivot limit is left out: its messages cannot be classified, e.g. as failed orders,
+ * and the overflow note of the table already reports them
+ * @param name Detector name
+ * @param input Detector input with the grouped rows as returned by the query
+ * @returns Detector output
+ */
+export function applySectionDetector(name: string, input: DetectorInput): DetectorOutput {
+  const isOther = (row: any) => input.fields.length > 0 && input.fields.every(field => row[field] === OTHER_BUCKET);
+  const other = input.rows.filter(isOther);
+  if (other.length > 0) {
+    console.log(`${name}: ${other.reduce((sum, row) => sum + (row.count || 0), 0)} messages of the "${OTHER_BUCKET}" row left out`);
+  }
+  return DETECTORS[name].detect({ ...input, rows: input.rows.filter(row => !isOther(row)) });
+}
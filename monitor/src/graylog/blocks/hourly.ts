@@ -0,0 +1,99 @@
+import { GraylogApiService } from '../api.service';
+import { HistogramBucket, HistogramInterval } from '../types';
+import { formatLocalTime } from '../../utils/utils';
+
+/**
+ * One entry of an hour-by-hour series stored in results.json and daily-stats.json
+ */
+export type HourlyEntry = { hour: string } & Record<string, number | string>;
+
+/**
+ * Fetch a time histogram for a query, labelled in local time
+ * @param graylogApi The Graylog API client
+ * @param query The search query string
+ * @param fromTimeISO Start time as ISO string
+ * @param toTimeISO End time as ISO string
+ * @param streamIds Optional array of stream IDs or titles to filter by
+ * @param groupByColumn Optional column to break each bucket down by
+ * @param interval Bucket size (default: 1h)
+ * @returns Buckets with a local 'YYYY-MM-DD HH:mm' label
+ */
+export async function fetchHourlyCounts(
+  graylogApi: GraylogApiService,
+  query: string,
+  fromTimeISO: string,
+  toTimeISO: string,
+  streamIds?: string[],
+  groupByColumn?: string,
+  interval: HistogramInterval = '1h'
+): Promise<Array<{ hour: string; count: number; groups: Record<string, number> }>> {
+  const { buckets } = await graylogApi.executeTimeHistogramQueryByStreamIdsAndWait(
+    query,
+    fromTimeISO,
+    toTimeISO,
+    interval,
+    groupByColumn,
+    streamIds
+  );
+  return toHourlyCounts(buckets);
+}
+
+/**
+ * Label time histogram buckets in local time
+ * @param buckets Buckets returned by a time histogram query
+ * @returns Buckets with a local 'YYYY-MM-DD HH:mm' label
+ */
+export function toHourlyCounts(
+  buckets: HistogramBucket[]
+): Array<{ hour: string; count: number; groups: Record<string, number> }> {
+  return buckets.map(bucket => ({
+    hour: formatLocalTime(bucket.timestamp, -8),
+    count: bucket.count,
+    groups: bucket.groups,
+  }));
+}
+
+/**
+ * Combine several hourly series into one, summing the counts of each named series per hour
+ * @param series Hourly series keyed by the name of the value in the combined entry
+ * @returns Combined hourly entries
+ */
+export function combineHourlySeries(
+  series: Record<string, Array<Array<{ hour: string; count: number }>>>
+): HourlyEntry[] {
+  const byHour = new Map<string, HourlyEntry>();
+  for (const [name, lists] of Object.entries(series)) {
+    for (const list of lists) {
+      for (const bucket of list) {
+        const entry = byHour.get(bucket.hour) || ({ hour: bucket.hour } as HourlyEntry);
+        entry[name] = ((entry[name] as number) || 0) + bucket.count;
+        byHour.set(bucket.hour, entry);
+      }
+    }
+  }
+  // Make sure every entry has every series, even when one series had no buckets for an hour
+  const names = Object.keys(series);
+  return Array.from(byHour.values())
+    .map(entry => {
+      names.forEach(name => {
+        entry[name] = entry[name] ?? 0;
+      });
+      return entry;
+    })
+    .sort((a, b) => a.hour.localeCompare(b.hour));
+}
+
+/**
+ * Convert hourly entries to the {type, value} table format used in results.json
+ * @param entries Hourly entries
+ * @returns Table rows
+ */
+export function buildHourlyTable(entries: HourlyEntry[]): any[] {
+  return entries.map(entry => {
+    const row: any = {};
+    for (const key of Object.keys(entry)) {
+      row[key] = { type: 'text', value: entry[key] };
+    }
+    return row;
+  });
+}
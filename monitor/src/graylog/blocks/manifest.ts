@@ -0,0 +1,198 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describePivotOverflow } from '../api.service';
+import { FailedWindow, PivotOverflow } from '../types';
+
+/**
+ * API call of a report query: its count, grouped rows, summary series, pivot, hourly histogram or sample messages,
+ * or the batch search of a batched block
+ */
+export type QueryCall = 'count' | 'grouped' | 'summary' | 'pivot' | 'hourly' | 'samples' | 'batch';
+
+/**
+ * Status of an API call
+ * - ok: data returned
+ * - failed: the call threw, its numbers are missing from the report
+ * - partial: data returned but incomplete, e.g. a failed split window or grouped rows beyond the pivot limit
+ * - empty: no matching message for a query that normally has some (queries tagged "errors" may be empty)
+ */
+export type QueryStatus = 'ok' | 'failed' | 'partial' | 'empty';
+
+/**
+ * One API call of a run
+ */
+export type ManifestEntry = {
+  block: string;
+  /** Catalog query id, the block id for a batch search */
+  query: string;
+  name: string;
+  call: QueryCall;
+  status: QueryStatus;
+  durationMs: number;
+  /** Rows returned: 1 for a count, grouped or pivot rows, histogram buckets, sample messages; null when the call failed */
+  rows: number | null;
+  /** Matching messages, null when unknown or the call failed */
+  total: number | null;
+  /** Error message of a failed call */
+  error: string | null;
+  /** Why the data is partial */
+  problems: string[];
+};
+
+/**
+ * What an API call returned, as recorded in the manifest
+ */
+export type QueryOutcome = {
+  rows: number;
+  total: number | null;
+  /** Incomplete data, e.g. failed split windows */
+  problems?: string[];
+};
+
+/**
+ * Query of a manifest entry: a catalog query, or a block for its batch search
+ */
+export type ManifestTarget = {
+  block: string;
+  query: { id: string; name: string; tags?: string[] };
+  call: QueryCall;
+};
+
+/**
+ * Describe incomplete data of a count or grouped result
+ * @param failedWindows Split windows whose search failed
+ * @param overflow Coverage of grouped rows, null for a count
+ * @returns Problems, empty when the result is complete
+ */
+export function describeIncomplete(failedWindows: FailedWindow[] = [], overflow: PivotOverflow | null = null): string[] {
+  const problems: string[] = [];
+  if (failedWindows.length > 0) {
+    problems.push(`${failedWindows.length} time window(s) failed and are missing from the totals: ${failedWindows[0].error}`);
+  }
+  if (overflow && overflow.other > 0) {
+    problems.push(`Grouped table is incomplete: ${describePivotOverflow(overflow)}`);
+  }
+  return problems;
+}
+
+/**
+ * Add an API call to the manifest
+ * @param entries Manifest entries, updated in place
+ * @param target Query and call
+ * @param durationMs Duration of the call
+ * @param outcome What the call returned, or the error it threw
+ * @returns Added entry
+ */
+export function recordQuery(entries: ManifestEntry[], target: ManifestTarget, durationMs: number, outcome: QueryOutcome | { error: unknown }): ManifestEntry {
+  const base = { block: target.block, query: target.query.id, name: target.query.name, call: target.call, durationMs };
+  let entry: ManifestEntry;
+  if ('error' in outcome) {
+    const error = outcome.error instanceof Error ? outcome.error.message : String(outcome.error);
+    entry = { ...base, status: 'failed', rows: null, total: null, error, problems: [] };
+  } else {
+    const problems = outcome.problems ?? [];
+    // Sample messages are evidence only, and error queries are expected to find nothing on a good day
+    const mayBeEmpty = target.call === 'samples' || target.call === 'batch' || (target.query.tags ?? []).includes('errors');
+    const status: QueryStatus = problems.length > 0 ? 'partial' : outcome.total === 0 && !mayBeEmpty ? 'empty' : 'ok';
+    entry = { ...base, status, rows: outcome.rows, total: outcome.total, error: null, problems };
+  }
+  entries.push(entry);
+  if (entry.status !== 'ok') {
+    console.warn(`Query "${entry.name}" (${entry.call}) is ${entry.status}${entry.error ? `: ${entry.error}` : ''}${entry.problems.length > 0 ? `: ${entry.problems.join('; ')}` : ''}`);
+  }
+  return entry;
+}
+
+/**
+ * Run an API call and add it to the manifest, failed when it throws
+ * @param entries Manifest entries, updated in place
+ * @param target Query and call
+ * @param call API call
+ * @param describe Rows, total and problems of the result
+ * @returns Result of the call
+ * @throws The error of the call, after it is recorded
+ */
+export async function trackQuery<T>(
+  entries: ManifestEntry[],
+  target: ManifestTarget,
+  call: () => Promise<T>,
+  describe: (result: T) => QueryOutcome
+): Promise<T> {
+  const start = Date.now();
+  try {
+    const result = await call();
+    recordQuery(entries, target, Date.now() - start, describe(result));
+    return result;
+  } catch (error) {
+    recordQuery(entries, target, Date.now() - start, { error });
+    throw error;
+  }
+}
+
+/**
+ * Build the "Data problems" table listing the calls that failed, are partial or suspiciously empty
+ * @param entries Manifest entries
+ * @returns Separator and table in {type, value} format, empty when every call is ok
+ */
+export function buildDataProblemsTables(entries: ManifestEntry[]): any[][] {
+  const problems = entries.filter(entry => entry.status !== 'ok');
+  if (problems.length === 0) return [];
+  return [
+    [{ 'Data problems': { type: 'separator' } }],
+    problems.map(entry => ({
+      block: { type: 'text', value: entry.block },
+      query: { type: 'text', value: entry.name },
+      call: { type: 'text', value: entry.call },
+      status: { type: 'text', value: entry.status.toUpperCase() },
+      problem: {
+        type: 'text',
+        value: entry.error ?? (entry.problems.length > 0 ? entry.problems.join('; ') : 'No matching message, a 0 or empty table in this report may be wrong'),
+      },
+    })),
+  ];
+}
+
+/**
+ * Manifest of a report run, written as manifest.json next to results.json
+ */
+export type RunManifest = {
+  report: string;
+  fromTime: string;
+  toTime: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  /** Number of calls per status */
+  summary: Record<QueryStatus, number>;
+  queries: ManifestEntry[];
+};
+
+/**
+ * Write the manifest of a report run
+ * @param resultsDir Result folder of the run
+ * @param report Report id
+ * @param fromTime Start time of the report, 'YYYY-MM-DD HH:mm:ss'
+ * @param toTime End time of the report, 'YYYY-MM-DD HH:mm:ss'
+ * @param startedAt Start of the run
+ * @param entries API calls of every block of the run
+ * @returns Written manifest
+ */
+export function writeManifest(resultsDir: string, report: string, fromTime: string, toTime: string, startedAt: Date, entries: ManifestEntry[]): RunManifest {
+  const finishedAt = new Date();
+  const summary: Record<QueryStatus, number> = { ok: 0, failed: 0, partial: 0, empty: 0 };
+  entries.forEach(entry => summary[entry.status]++);
+  const manifest: RunManifest = {
+    report,
+    fromTime,
+    toTime,
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - startedAt.getTime(),
+    summary,
+    queries: entries,
+  };
+  const manifestPath = path.join(resultsDir, 'manifest.json');
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+  console.log(`Manifest written to: ${manifestPath} (${Object.entries(summary).map(([status, count]) => `${status}: ${count}`).join(', ')})`);
+  return manifest;
+}
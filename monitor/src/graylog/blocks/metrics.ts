@@ -0,0 +1,73 @@
+import { getMetrics, MetricDefinition } from '../catalog';
+import { parseExpression } from '../expression';
+
+/**
+ * Value of a derived metric
+ */
+export type MetricValue = {
+  definition: MetricDefinition;
+  /** Null when an input is missing or a division by zero occurs */
+  value: number | null;
+};
+
+/**
+ * Read a number from a stats entry by dotted path, e.g. 'payment.mobile.success'
+ * @param entry Stats entry of one day
+ * @param path Dotted path
+ * @returns Number, or null when the value is missing or not a number
+ */
+function readStat(entry: Record<string, any>, path: string): number | null {
+  const value = path.split('.').reduce<any>((current, key) => current?.[key], entry);
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Compute the derived metrics of a report over the stats of one day and store them in the entry
+ * Values are stored under `metrics`, keyed by metric id
+ * @param tag Report tag selecting the metrics, e.g. 'daily-order'
+ * @param entry Stats entry of the day, updated in place
+ * @returns Computed metrics in catalog order
+ */
+export function applyDerivedMetrics(tag: string, entry: Record<string, any>): MetricValue[] {
+  const values = getMetrics(tag).map(definition => {
+    const expression = parseExpression(definition.expression);
+    const value = expression.evaluate(path => readStat(entry, path));
+    if (value === null) {
+      const missing = expression.variables.filter(variable => readStat(entry, variable) === null);
+      console.warn(`Metric "${definition.id}" has no value${missing.length > 0 ? `, missing stats: ${missing.join(', ')}` : ' (division by zero)'}`);
+    }
+    return { definition, value };
+  });
+  if (values.length > 0) {
+    entry.metrics = {
+      ...entry.metrics,
+      ...Object.fromEntries(values.map(metric => [metric.definition.id, metric.value])),
+    };
+  }
+  return values;
+}
+
+/**
+ * Format a metric value for the report
+ * @param metric Metric value
+ * @returns Formatted value, e.g. '12.5%', or null when there is no value
+ */
+function formatMetric(metric: MetricValue): string | number | null {
+  if (metric.value === null) return null;
+  if (metric.definition.format === 'percent') {
+    return `${(metric.value * 100).toFixed(1)}%`;
+  }
+  return Math.round(metric.value * 100) / 100;
+}
+
+/**
+ * Build the table of derived metrics
+ * @param metrics Computed metrics
+ * @returns Table rows in {type, value} format, empty when there are no metrics
+ */
+export function buildMetricsTable(metrics: MetricValue[]): any[] {
+  return metrics.map(metric => ({
+    metric: { type: 'text', value: metric.definition.name },
+    value: { type: 'text', value: formatMetric(metric) },
+  }));
+}
@@ -0,0 +1,14 @@
+import { describePivotOverflow } from '../api.service';
+import { PivotOverflow } from '../types';
+
+/**
+ * Build a note telling that a grouped table does not cover every matching message
+ * @param overflow Coverage of the grouped rows, null when the query failed
+ * @returns Table rows in {type, value} format, empty when the grouped table is complete
+ */
+export function buildOverflowTable(overflow: PivotOverflow | null): any[] {
+  if (!overflow || overflow.other <= 0) return [];
+  return [{
+    incomplete: { type: 'text', value: `Grouped table is incomplete: ${describePivotOverflow(overflow)}` },
+  }];
+}
@@ -0,0 +1,787 @@
+import { Page } from '@playwright/test';
+import * as path from 'path';
+import { GraylogHelper } from '../helper';
+import { config } from '../../config';
+import { GraylogApiService } from '../api.service';
+import { CatalogQuery, collectStreams, getQueries, getQuery, groupByFields } from '../catalog';
+import { validateQueryFields } from '../fields';
+import { BatchQuery, BatchQueryResult, PivotOverflow } from '../types';
+import { buildS3BaseUrl, mapWithConcurrency, parseUTCTime } from '../../utils/utils';
+import { renderBarChart, renderLineChart, toGroupedBars, toHourlyLines, toTrendLines, writeChart } from './charts';
+import { DAILY_STATS_PATH, getDailyStatsEntry, readDailyStats, writeDailyStats } from './daily-stats';
+import { BlockDefinition, BlockSection, CountSection, GroupedSection, HourlySection, PivotSection, StatsTemplate, blockQueryIds, getBlock } from './definitions';
+import { DETECTORS, applySectionDetector } from './detectors';
+import { HourlyEntry, buildHourlyTable, combineHourlySeries, fetchHourlyCounts, toHourlyCounts } from './hourly';
+import { MetricValue, applyDerivedMetrics, buildMetricsTable } from './metrics';
+import { buildOverflowTable } from './overflow';
+import { fetchSampleRows } from './samples';
+import { ManifestEntry, ManifestTarget, QueryCall, describeIncomplete, recordQuery, trackQuery } from './manifest';
+
+/**
+ * State of one block run
+ */
+type BlockRun = {
+  definition: BlockDefinition;
+  /** Null for an API-only run, which skips the search views and screenshots */
+  page: Page | null;
+  /** Whether the images are charts rendered from the query data instead of screenshots (REPORT_IMAGES=chart) */
+  charts: boolean;
+  graylogApi: GraylogApiService;
+  fromTime: string;
+  toTime: string;
+  fromTimeISO: string;
+  toTimeISO: string;
+  prefix: string;
+  resultDir: string;
+  /** Values collected by the sections and detectors, persisted through the stats template */
+  values: Record<string, any>;
+  /** Number of numbered screenshots taken so far */
+  screenshots: number;
+  /** Number of charts rendered so far */
+  chartCount: number;
+  /** Results of the batch search by query name, null when the block is not batched or the search failed */
+  batch: Record<string, BatchQueryResult> | null;
+  /** Status of every API call of the block */
+  manifest: ManifestEntry[];
+};
+
+/** Text of a chart whose query failed, so that it is not read as a quiet day */
+const QUERY_FAILED_TEXT = 'Query failed, see the data problems';
+
+/** Name of the hourly histogram of a query in the batch search */
+const hourlyBatchName = (query: CatalogQuery) => `hourly:${query.name}`;
+
+/**
+ * Manifest target of an API call of the block
+ * @param run Block run
+ * @param query Catalog query
+ * @param call Kind of call
+ * @returns Target recorded in the manifest
+ */
+function manifestTarget(run: BlockRun, query: CatalogQuery, call: QueryCall): ManifestTarget {
+  return { block: run.definition.id, query, call };
+}
+
+/**
+ * Convert rows to the {type, value} table format used in results.json
+ * @param rows Plain rows
+ * @returns Table rows
+ */
+function toTableRows(rows: any[]): any[] {
+  return rows.map(item => {
+    const row: any = {};
+    for (const key of Object.keys(item)) {
+      row[key] = { type: 'text', value: item[key] };
+    }
+    return row;
+  });
+}
+
+/**
+ * Add a number to a block value; several queries may feed the same value
+ * @param run Block run
+ * @param name Value name, nothing is stored when undefined
+ * @param value Number to add, null when the query failed
+ */
+function addValue(run: BlockRun, name: string | undefined, value: number | null): void {
+  if (name) {
+    // A failed query leaves the value unknown rather than 0, also when other queries feed it
+    run.values[name] = value === null || run.values[name] === null ? null : (run.values[name] || 0) + value;
+  }
+}
+
+/**
+ * Render a chart into the result folder
+ * @param run Block run
+ * @param svg SVG document
+ * @returns Table with the chart image, numbered per block, e.g. chart-order-2.png
+ */
+function addChart(run: BlockRun, svg: string): any[] {
+  const fileName = `chart-${run.definition.id}-${++run.chartCount}.png`;
+  writeChart(run.resultDir, fileName, svg);
+  return [{ chart: { type: 'image', value: buildS3BaseUrl(config.s3Prefix, run.prefix, fileName) } }];
+}
+
+/**
+ * Open the search view of a query with the report time range, enter the query and take a screenshot of the result
+ * @param run Block run
+ * @param worker Browser page and its helper
+ * @param capture Planned screenshot
+ * @returns Screenshot URL
+ */
+async function captureQuery(run: BlockRun, worker: { page: Page; graylogHelper: GraylogHelper }, capture: Capture): Promise<string> {
+  const { query } = capture;
+  console.log(`Navigating to query-specific view: ${query.view}`);
+  await worker.graylogHelper.loginAndVisitSearchView(query.view);
+  await worker.graylogHelper.selectTimeRange(run.fromTime, run.toTime);
+  // The query is submitted and the API response awaited
+  await worker.graylogHelper.enterQueryText(query.query);
+  const screenshotPath = path.join(run.resultDir, capture.fileName);
+  await worker.page.screenshot({ path: screenshotPath, fullPage: true });
+  console.log(`Screenshot saved: ${screenshotPath}`);
+  return buildS3BaseUrl(config.s3Prefix, run.prefix, capture.fileName);
+}
+
+/**
+ * Run the count, grouped and hourly queries of a batched block in a single Graylog search
+ * @param run Block run
+ * @returns Results by query name, null when the search fails
+ */
+async function runBatch(run: BlockRun): Promise<Record<string, BatchQueryResult> | null> {
+  const batchQueries: BatchQuery[] = [];
+  const hourlyQueries: BatchQuery[] = [];
+  for (const section of run.definition.sections) {
+    if (section.kind === 'count' || section.kind === 'grouped') {
+      getQueries(section.queries).forEach(query => batchQueries.push({
+        name: query.name,
+        query: query.query,
+        streamIds: query.streams,
+        pivot: section.kind === 'grouped' ? { name: 'grouped_count', rowGroups: query.groupBy!, otherRow: true } : undefined,
+      }));
+    } else if (section.kind === 'hourly') {
+      const hourly = section.series
+        ? getQueries(Object.values(section.series).flat()).map(query => ({ query, groupBy: undefined }))
+        : [{ query: getQuery(section.splitBy!.query), groupBy: groupByFields(getQuery(section.splitBy!.query))[0] }];
+      hourly.forEach(({ query, groupBy }) => hourlyQueries.push({
+        name: hourlyBatchName(query),
+        query: query.query,
+        streamIds: query.streams,
+        pivot: run.graylogApi.buildTimeHistogramOptions('1h', groupBy),
+      }));
+    }
+  }
+  try {
+    console.log(`\nExecuting ${batchQueries.length} ${run.definition.id} queries via API in one search...`);
+    const apiResult = await trackQuery(
+      run.manifest,
+      { block: run.definition.id, query: { id: run.definition.id, name: `${run.definition.id} batch search` }, call: 'batch' },
+      () => run.graylogApi.executeBatchQueryAndWait(
+        [...batchQueries, ...hourlyQueries],
+        run.fromTimeISO,
+        run.toTimeISO,
+        { queryName: run.definition.id }
+      ),
+      result => ({ rows: Object.keys(result.results).length, total: null })
+    );
+    return apiResult.results;
+  } catch (error) {
+    console.error(`Error executing ${run.definition.id} queries via API:`, error);
+    // Continue with UI-based execution even if API fails
+    return null;
+  }
+}
+
+/**
+ * Count the messages of a query, from the batch search when the block is batched
+ * @returns Count, or null when the query fails
+ */
+async function fetchCount(run: BlockRun, query: CatalogQuery): Promise<number | null> {
+  if (run.definition.batch) {
+    const result = run.batch?.[query.name];
+    recordQuery(run.manifest, manifestTarget(run, query, 'count'), 0, result ? { rows: 1, total: result.count } : { error: 'The batch search failed' });
+    return result?.count ?? null;
+  }
+  try {
+    console.log(`\nExecuting query via API...`);
+    const apiResult = await trackQuery(
+      run.manifest,
+      manifestTarget(run, query, 'count'),
+      () => run.graylogApi.executeCountQueryByStreamIdsAndWait(query.query, run.fromTimeISO, run.toTimeISO, query.streams, { queryName: query.name, splitWindow: query.splitWindow }),
+      result => ({ rows: 1, total: result.count, problems: describeIncomplete(result.failedWindows) })
+    );
+    return apiResult.count;
+  } catch (error) {
+    console.error(`Error executing query via API:`, error);
+    // Continue with UI-based execution even if API fails
+    return null;
+  }
+}
+
+/**
+ * Count the messages of a query grouped by its groupBy fields, from the batch search when the block is batched
+ * @returns Grouped data as {...fields, count} and its coverage, null rows when the query fails
+ */
+async function fetchGrouped(run: BlockRun, query: CatalogQuery): Promise<{ rows: any[] | null; overflow: PivotOverflow | null }> {
+  if (run.definition.batch) {
+    const result = run.batch?.[query.name];
+    recordQuery(run.manifest, manifestTarget(run, query, 'grouped'), 0, result
+      ? { rows: result.rows.length, total: result.count, problems: describeIncomplete([], result.overflow) }
+      : { error: 'The batch search failed' });
+    return {
+      rows: result ? result.rows.map(row => ({ ...row.fields, count: row.count })) : null,
+      overflow: result?.overflow ?? null,
+    };
+  }
+  try {
+    const apiResult = await trackQuery(
+      run.manifest,
+      manifestTarget(run, query, 'grouped'),
+      () => run.graylogApi.executePivotQueryByStreamIdsAndWait(
+        query.query,
+        run.fromTimeISO,
+        run.toTimeISO,
+        { name: 'grouped_count', rowGroups: query.groupBy!, otherRow: true },
+        query.streams,
+        { queryName: query.name, splitWindow: query.splitWindow }
+      ),
+      result => ({ rows: result.rows.length, total: result.overflow.total, problems: describeIncomplete(result.failedWindows, result.overflow) })
+    );
+    return {
+      rows: apiResult.rows.map(row => ({ ...row.fields, count: row.count })),
+      overflow: apiResult.overflow,
+    };
+  } catch (error) {
+    console.log(error);
+    return { rows: null, overflow: null };
+  }
+}
+
+/**
+ * Fetch the hourly histogram of a query, from the batch search when the block is batched
+ * @param groupByColumn Optional column to break each bucket down by
+ * @returns Buckets with a local 'YYYY-MM-DD HH:mm' label
+ */
+async function fetchHourly(run: BlockRun, query: CatalogQuery, groupByColumn?: string): Promise<Array<{ hour: string; count: number; groups: Record<string, number> }>> {
+  const describeBuckets = (buckets: Array<{ count: number }>) => ({ rows: buckets.length, total: buckets.reduce((sum, bucket) => sum + bucket.count, 0) });
+  if (run.definition.batch) {
+    const result = run.batch?.[hourlyBatchName(query)];
+    if (!result) {
+      const error = new Error(`No hourly result for ${query.name}, the batch search failed`);
+      recordQuery(run.manifest, manifestTarget(run, query, 'hourly'), 0, { error });
+      throw error;
+    }
+    const buckets = toHourlyCounts(run.graylogApi.toHistogramBuckets(result.rows, run.fromTimeISO, run.toTimeISO, '1h'));
+    recordQuery(run.manifest, manifestTarget(run, query, 'hourly'), 0, describeBuckets(buckets));
+    return buckets;
+  }
+  return trackQuery(
+    run.manifest,
+    manifestTarget(run, query, 'hourly'),
+    () => fetchHourlyCounts(run.graylogApi, query.query, run.fromTimeISO, run.toTimeISO, query.streams, groupByColumn),
+    describeBuckets
+  );
+}
+
+/**
+ * Screenshot of a query, taken on one of the browser pages of the block
+ */
+type Capture = {
+  query: CatalogQuery;
+  fileName: string;
+  /** Screenshot URL once taken */
+  url: string | null;
+};
+
+/**
+ * Work of one section, split so that the queries of every section can run in parallel
+ */
+type SectionPlan = {
+  /** API calls of the section; each job catches its own errors */
+  jobs: Array<() => Promise<void>>;
+  /** Screenshots of the section, empty for an API-only run */
+  captures: Capture[];
+  /** Add the values of the section to the block and return its tables, called in section order once every job and capture is done */
+  collect: () => any[][];
+};
+
+/**
+ * Plan the screenshot of a query; file names are given in section order so they do not depend on which page finishes first
+ * @param fileName Fixed file name; by default screenshots are numbered per block, e.g. query-order-2-result.png
+ * @returns Capture, null for an API-only run or when the images are charts
+ */
+function planCapture(run: BlockRun, query: CatalogQuery, fileName?: string): Capture | null {
+  if (!run.page || run.charts) return null;
+  return { query, fileName: fileName ?? `query-${run.definition.id}-${++run.screenshots}-result.png`, url: null };
+}
+
+/**
+ * Plan the sample messages of a query, the most recent matching messages as evidence for the investigation
+ * @returns Jobs filling the sample table of the query, none when the query has no samples option
+ */
+function planSamples(run: BlockRun, query: CatalogQuery, samples: any[][], index: number): Array<() => Promise<void>> {
+  if (!query.samples) return [];
+  return [async () => {
+    try {
+      samples[index] = await trackQuery(
+        run.manifest,
+        manifestTarget(run, query, 'samples'),
+        () => fetchSampleRows(run.graylogApi, query, run.fromTimeISO, run.toTimeISO, query.streams),
+        rows => ({ rows: rows.length, total: null })
+      );
+    } catch (error) {
+      console.error(`Error fetching sample messages via API:`, error);
+    }
+  }];
+}
+
+/**
+ * Count each query of the section
+ */
+function planCountSection(run: BlockRun, section: CountSection): SectionPlan {
+  const queries = getQueries(section.queries);
+  const counts: Array<number | null> = queries.map(() => null);
+  const samples: any[][] = queries.map(() => []);
+  const captures = queries.map(query => planCapture(run, query, section.screenshot));
+  return {
+    jobs: queries.flatMap((query, i) => [
+      async () => {
+        counts[i] = await fetchCount(run, query);
+        console.log(`API Query Count of ${query.name}: ${counts[i] ?? 'N/A'}`);
+      },
+      ...planSamples(run, query, samples, i),
+    ]),
+    captures: captures.filter((capture): capture is Capture => capture !== null),
+    collect: () => {
+      const tables = queries.flatMap((query, i) => {
+        addValue(run, section.values?.[query.id], counts[i]);
+        const screenshot = captures[i]?.url;
+        const queryTables: any[][] = [[{
+          name: { type: 'text', value: query.name },
+          total: { type: 'text', value: counts[i] },
+          ...(screenshot ? { screenshot: { type: 'image', value: screenshot } } : {})
+        }]];
+        if (samples[i].length > 0) queryTables.push(samples[i]);
+        return queryTables;
+      });
+      // One chart with the totals of the section, a failed query is labelled instead of drawn as 0
+      if (run.charts) {
+        const bars = queries.map((query, i) => ({ label: query.name, value: counts[i] }));
+        tables.push(addChart(run, renderBarChart(`${run.definition.id} totals`, bars)));
+      }
+      return tables;
+    },
+  };
+}
+
+/**
+ * Count each query of the section grouped by its groupBy fields and apply the section detectors
+ */
+function planGroupedSection(run: BlockRun, section: GroupedSection): SectionPlan {
+  const queries = getQueries(section.queries);
+  const grouped: Array<{ rows: any[] | null; overflow: PivotOverflow | null }> = queries.map(() => ({ rows: null, overflow: null }));
+  const seriesValues: Array<Record<string, any>> = queries.map(() => ({}));
+  const samples: any[][] = queries.map(() => []);
+  const captures = queries.map(query => planCapture(run, query, section.screenshot));
+
+  // Series over every matching message, e.g. the number of unique customers
+  const planSummary = (query: CatalogQuery, i: number) => section.summary ? [async () => {
+    try {
+      const apiResult = await trackQuery(
+        run.manifest,
+        manifestTarget(run, query, 'summary'),
+        () => run.graylogApi.executePivotQueryByStreamIdsAndWait(
+          query.query,
+          run.fromTimeISO,
+          run.toTimeISO,
+          { name: 'summary', rowGroups: [], series: query.series },
+          query.streams,
+          { queryName: query.name }
+        ),
+        result => ({ rows: result.rows.length, total: null })
+      );
+      seriesValues[i] = apiResult.rows[0]?.values ?? {};
+    } catch (error) {
+      console.log(error);
+    }
+  }] : [];
+
+  return {
+    jobs: queries.flatMap((query, i) => [
+      async () => {
+        grouped[i] = await fetchGrouped(run, query);
+      },
+      ...planSummary(query, i),
+      ...planSamples(run, query, samples, i),
+    ]),
+    captures: captures.filter((capture): capture is Capture => capture !== null),
+    collect: () => queries.flatMap((query, i) => {
+      const { rows, overflow } = grouped[i];
+      const totalCount = rows ? rows.reduce((sum: number, item: any) => sum + (item.count || 0), 0) : null;
+      console.log(`API Query Total Count of ${query.name}: ${totalCount ?? 'N/A'}`);
+      addValue(run, section.values?.[query.id], totalCount);
+
+      const summary: any = {};
+      for (const [column, seriesId] of Object.entries(section.summary ?? {})) {
+        summary[column] = { type: 'text', value: seriesValues[i][seriesId] ?? null };
+      }
+
+      const detectorTables: any[][] = [];
+      for (const name of section.detectors ?? []) {
+        // The outputs of a failed query are unknown, not 0
+        if (!rows) {
+          DETECTORS[name].outputs.forEach(output => run.values[output] = null);
+          continue;
+        }
+        const output = applySectionDetector(name, {
+          rows,
+          fields: groupByFields(query),
+          values: run.values,
+          history: [],
+          date: run.fromTime.split(' ')[0],
+        });
+        Object.assign(run.values, output.values);
+        detectorTables.push(...(output.tables ?? []));
+      }
+
+      const tables: any[][] = [[{
+        name: { type: 'text', value: query.name },
+        total: { type: 'text', value: totalCount },
+        ...summary
+      }]];
+      const screenshot = captures[i]?.url;
+      if (screenshot) {
+        tables.push([{ screenshot: { type: 'image', value: screenshot } }]);
+      }
+      if (run.charts) {
+        tables.push(addChart(run, rows
+          ? renderBarChart(query.name, toGroupedBars(rows))
+          : renderBarChart(query.name, [], QUERY_FAILED_TEXT)));
+      }
+      tables.push(...detectorTables);
+      tables.push(toTableRows(rows ?? []));
+      const overflowNote = buildOverflowTable(overflow);
+      if (overflowNote.length > 0) tables.push(overflowNote);
+      if (samples[i].length > 0) tables.push(samples[i]);
+      return tables;
+    }),
+  };
+}
+
+/**
+ * Compute the series of each query of the section per group
+ */
+function planPivotSection(run: BlockRun, section: PivotSection): SectionPlan {
+  const queries = getQueries(section.queries);
+  const tableRows: any[][] = queries.map(() => []);
+  return {
+    jobs: queries.map((query, i) => async () => {
+      try {
+        const apiResult = await trackQuery(
+          run.manifest,
+          manifestTarget(run, query, 'pivot'),
+          () => run.graylogApi.executePivotQueryByStreamIdsAndWait(
+            query.query,
+            run.fromTimeISO,
+            run.toTimeISO,
+            { name: 'series_by_group', rowGroups: query.groupBy ?? [], series: query.series, sortByCount: 'desc' },
+            query.streams,
+            { queryName: query.name, splitWindow: query.splitWindow }
+          ),
+          result => ({ rows: result.rows.length, total: result.rows.reduce((sum, row) => sum + row.count, 0), problems: describeIncomplete(result.failedWindows) })
+        );
+        const round = (value: number | null | undefined) => value == null ? null : Math.round(value);
+        tableRows[i] = apiResult.rows.map(row => ({
+          ...toTableRows([row.fields])[0],
+          count: { type: 'text', value: row.count },
+          ...Object.fromEntries(Object.entries(section.columns).map(([column, seriesId]) => [column, { type: 'text', value: round(row.values[seriesId]) }])),
+        }));
+        console.log(`API Query ${query.name} rows: ${tableRows[i].length}`);
+      } catch (error) {
+        console.log(error);
+      }
+    }),
+    captures: [],
+    collect: () => queries.flatMap((query, i) => [
+      [{ name: { type: 'text', value: query.name } }],
+      tableRows[i],
+    ]),
+  };
+}
+
+/**
+ * Build the hour-by-hour series of the section; the series is empty when one of its histograms fails
+ */
+function planHourlySection(run: BlockRun, section: HourlySection): SectionPlan {
+  type Buckets = Array<{ hour: string; count: number; groups: Record<string, number> }>;
+  const histograms: Array<{ name: string; query: CatalogQuery; groupBy?: string; buckets: Buckets | null }> = section.series
+    ? Object.entries(section.series).flatMap(([name, ids]) => getQueries(ids).map(query => ({ name, query, buckets: null })))
+    : [{ name: '', query: getQuery(section.splitBy!.query), groupBy: groupByFields(getQuery(section.splitBy!.query))[0], buckets: null }];
+  return {
+    jobs: histograms.map(histogram => async () => {
+      try {
+        histogram.buckets = await fetchHourly(run, histogram.query, histogram.groupBy);
+      } catch (error) {
+        console.log(error);
+      }
+    }),
+    captures: [],
+    collect: () => {
+      let entries: HourlyEntry[] = [];
+      if (histograms.every(histogram => histogram.buckets !== null)) {
+        if (section.series) {
+          const series: Record<string, Buckets[]> = Object.fromEntries(Object.keys(section.series).map(name => [name, []]));
+          histograms.forEach(histogram => series[histogram.name].push(histogram.buckets!));
+          entries = combineHourlySeries(series);
+        } else {
+          entries = histograms[0].buckets!.map(bucket => {
+            const success = bucket.groups[section.splitBy!.success] ?? 0;
+            return { hour: bucket.hour, success, failed: bucket.count - success };
+          });
+        }
+      }
+      run.values[section.value] = entries;
+      const tables = [buildHourlyTable(entries)];
+      if (run.charts) {
+        const failed = histograms.some(histogram => histogram.buckets === null);
+        tables.push(addChart(run, renderLineChart(`${run.definition.id} ${section.value}`, toHourlyLines(entries), failed ? QUERY_FAILED_TEXT : undefined)));
+      }
+      return tables;
+    },
+  };
+}
+
+const SECTION_PLANNERS: { [K in BlockSection['kind']]: (run: BlockRun, section: Extract<BlockSection, { kind: K }>) => SectionPlan } = {
+  count: planCountSection,
+  grouped: planGroupedSection,
+  pivot: planPivotSection,
+  hourly: planHourlySection,
+};
+
+/**
+ * Take the screenshots of a block on up to PLAYWRIGHT_PAGE_CONCURRENCY browser pages in parallel
+ * The block page is used first; extra pages are opened in its browser context and closed afterwards
+ * Never throws: a failed screenshot is logged and keeps a null URL, so the API calls running next to it are still reported
+ * @param run Block run
+ * @param captures Screenshots to take, updated with their URL
+ */
+async function captureAll(run: BlockRun, captures: Capture[]): Promise<void> {
+  if (!run.page || captures.length === 0) return;
+  const extraPages: Page[] = [];
+  try {
+    for (let i = 1; i < Math.min(config.playwrightPageConcurrency, captures.length); i++) {
+      extraPages.push(await run.page.context().newPage());
+    }
+  } catch (error) {
+    console.error('Failed to open a browser page for the screenshots, taking them on fewer pages:', error);
+  }
+  const pageCount = extraPages.length + 1;
+  try {
+    const idle = [run.page, ...extraPages].map(page => ({ page, graylogHelper: new GraylogHelper(page) }));
+    await mapWithConcurrency(captures, pageCount, async capture => {
+      // A page is always idle: there are as many pages as concurrent captures
+      const worker = idle.pop()!;
+      try {
+        capture.url = await captureQuery(run, worker, capture);
+      } catch (error) {
+        // A failed screenshot leaves its image out, the data of the block is still reported
+        console.error(`Failed to take screenshot ${capture.fileName} of ${capture.query.name}:`, error);
+      } finally {
+        idle.push(worker);
+      }
+    });
+  } finally {
+    await Promise.all(extraPages.map(page => page.close().catch(error => console.error('Failed to close a screenshot page:', error))));
+  }
+}
+
+/**
+ * Fill a stats template with the block values
+ * @param template Stats template
+ * @param values Block values
+ * @returns Stats to store in the daily stats entry, null for a value whose query failed
+ */
+function fillStats(template: StatsTemplate, values: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(template).map(([key, value]) => [
+    key,
+    typeof value === 'string' ? values[value] : fillStats(value, values),
+  ]));
+}
+
+/**
+ * Describe the numbers of the stats for the log, e.g. 'order.success=120'
+ * @param stats Stats of the block
+ * @returns One 'path=value' per number
+ */
+function describeStats(stats: Record<string, any>): string[] {
+  return numericStats(stats).map(([statPath, value]) => `${statPath}=${value}`);
+}
+
+/**
+ * List the numbers of the stats with their dotted path, e.g. ['order.success', 120]
+ * @param stats Stats of the block
+ * @param prefix Path of the stats
+ * @returns Path and value of each number, null for a value whose query failed
+ */
+function numericStats(stats: Record<string, any>, prefix: string = ''): Array<[string, number | null]> {
+  return Object.entries(stats).flatMap(([key, value]): Array<[string, number | null]> => {
+    if (typeof value === 'number' || value === null) return [[`${prefix}${key}`, value]];
+    return value && typeof value === 'object' && !Array.isArray(value) ? numericStats(value, `${prefix}${key}.`) : [];
+  });
+}
+
+/**
+ * Apply the block detectors, write the stats of the block to daily-stats.json and compute the derived metrics
+ * @param run Block run
+ * @returns Detector and metric tables
+ */
+function writeBlockStats(run: BlockRun): any[][] {
+  const { definition } = run;
+  const tables: any[][] = [];
+  if (!definition.stats && !definition.detectors) return tables;
+
+  let derivedMetrics: MetricValue[] = [];
+  let trendChart: any[] = [];
+  try {
+    // Extract date from fromTime (format: 'YYYY-MM-DD HH:mm:ss' -> 'YYYY-MM-DD')
+    const dateFromTime = run.fromTime.split(' ')[0];
+    const dailyStats = readDailyStats();
+
+    // Detectors compare with the stats before the entry of this date is updated
+    for (const name of definition.detectors ?? []) {
+      const output = DETECTORS[name].detect({ rows: [], fields: [], values: run.values, history: dailyStats, date: dateFromTime });
+      Object.assign(run.values, output.values);
+      tables.push(...(output.tables ?? []));
+    }
+
+    if (definition.stats) {
+      const entry = getDailyStatsEntry(dailyStats, dateFromTime);
+      const stats = fillStats(definition.stats, run.values);
+      Object.assign(entry, stats);
+      console.log(`\nUpdated daily-stats.json for date ${dateFromTime}: ${describeStats(stats).join(', ')}`);
+
+      // Derived metrics of this report, stored with the stats of the day
+      if (definition.metrics) {
+        derivedMetrics = applyDerivedMetrics(definition.metrics, entry);
+      }
+      writeDailyStats(dailyStats);
+      console.log(`Report stats written to: ${DAILY_STATS_PATH}`);
+
+      // Stats of the block over the last 28 days
+      if (run.charts) {
+        const statPaths = numericStats(stats).map(([statPath]) => statPath);
+        trendChart = addChart(run, renderLineChart(`${definition.id} last 28 days`, toTrendLines(dailyStats, dateFromTime, statPaths)));
+      }
+    }
+  } catch (error) {
+    console.error('Failed to update daily-stats.json:', error);
+    // Don't fail the test if daily-stats.json update fails
+  }
+  const metricsTable = buildMetricsTable(derivedMetrics);
+  if (metricsTable.length > 0) {
+    tables.push(metricsTable);
+  }
+  if (trendChart.length > 0) {
+    tables.push(trendChart);
+  }
+  return tables;
+}
+
+/**
+ * Options of a block run
+ */
+export type BlockOptions = {
+  /** Apply the block detectors and write the stats of the day to daily-stats.json (default: true); off for runs that do not cover a report day */
+  dailyStats?: boolean;
+};
+
+/**
+ * Tables and values of a block run
+ */
+export type BlockResult = {
+  /** Tables of the block in {type, value} format */
+  tables: any[][];
+  /** Values collected by the sections and detectors, e.g. { success: 120, failed: 3 } */
+  values: Record<string, any>;
+  /** Status of every API call of the block, in query order */
+  manifest: ManifestEntry[];
+};
+
+/**
+ * Run a report block from its definition in src/graylog/blocks.json
+ * The API calls of every section run in parallel (GRAYLOG_QUERY_CONCURRENCY), next to the screenshots (PLAYWRIGHT_PAGE_CONCURRENCY);
+ * the tables are then added in section order, followed by the block detectors, stats and derived metrics
+ * @param id Block id, e.g. 'order'
+ * @param page Playwright page used for the screenshots, null for an API-only run
+ * @param fromTime Start time, 'YYYY-MM-DD HH:mm:ss'
+ * @param toTime End time, 'YYYY-MM-DD HH:mm:ss'
+ * @param prefix Result folder, '<report>/<date>'
+ * @returns Tables of the block in {type, value} format
+ */
+export async function runBlock(id: string, page: Page | null, fromTime: string, toTime: string, prefix: string): Promise<any[][]> {
+  const { tables } = await executeBlock(id, page, fromTime, toTime, prefix);
+  return tables;
+}
+
+/**
+ * Run a report block and return its values with its tables, see runBlock
+ * @param id Block id, e.g. 'order'
+ * @param page Playwright page used for the screenshots, null for an API-only run
+ * @param fromTime Start time, 'YYYY-MM-DD HH:mm:ss'
+ * @param toTime End time, 'YYYY-MM-DD HH:mm:ss'
+ * @param prefix Result folder, '<report>/<date>'
+ * @param options Block options
+ * @returns Tables and values of the block
+ */
+export async function executeBlock(
+  id: string,
+  page: Page | null,
+  fromTime: string,
+  toTime: string,
+  prefix: string,
+  options: BlockOptions = {}
+): Promise<BlockResult> {
+  const definition = getBlock(id);
+  const graylogApi = new GraylogApiService();
+
+  // Check if time range is set
+  if (!fromTime || !toTime) {
+    throw new Error(`The time range of block "${id}" must be set, e.g. with GRAYLOG_QUERY_FROM_TIME and GRAYLOG_QUERY_TO_TIME`);
+  }
+  const pathElements = prefix.split('/');
+  const queries = getQueries(blockQueryIds(definition));
+  // Fail before any query when a stream, view or field does not exist
+  await graylogApi.validateReferences({
+    streams: collectStreams(queries),
+    views: queries.map(query => query.view),
+  });
+  await validateQueryFields(graylogApi, queries);
+
+  const run: BlockRun = {
+    definition,
+    page,
+    charts: config.reportImages === 'chart',
+    graylogApi,
+    fromTime,
+    toTime,
+    // Convert time strings (UTC format: 'YYYY-MM-DD HH:mm:ss') to ISO format for API calls
+    fromTimeISO: parseUTCTime(fromTime, -8),
+    toTimeISO: parseUTCTime(toTime, -8),
+    prefix,
+    resultDir: path.resolve(process.cwd(), 'src', 'graylog', 'result', pathElements[0], pathElements[1]),
+    values: {},
+    screenshots: 0,
+    chartCount: 0,
+    batch: null,
+    manifest: [],
+  };
+
+  const results: any[][] = [];
+  if (definition.separator) {
+    results.push([{ [definition.separator]: { type: 'separator' } }]);
+  }
+  if (definition.batch) {
+    run.batch = await runBatch(run);
+  }
+  const plans = definition.sections.map(section => {
+    const planSection = SECTION_PLANNERS[section.kind] as (run: BlockRun, section: BlockSection) => SectionPlan;
+    return planSection(run, section);
+  });
+  // API calls and screenshots run side by side, the tables are collected in section order
+  const jobs = plans.flatMap(plan => plan.jobs);
+  console.log(`\nRunning ${jobs.length} ${definition.id} API calls, at most ${config.graylogQueryConcurrency} at a time`);
+  await Promise.all([
+    mapWithConcurrency(jobs, config.graylogQueryConcurrency, job => job()),
+    captureAll(run, plans.flatMap(plan => plan.captures)),
+  ]);
+  for (const plan of plans) {
+    results.push(...plan.collect());
+  }
+  if (options.dailyStats !== false) {
+    results.push(...writeBlockStats(run));
+  }
+  // Calls finish in any order, the manifest follows the block queries
+  const queryOrder = [definition.id, ...blockQueryIds(definition)];
+  const callOrder: QueryCall[] = ['batch', 'count', 'grouped', 'summary', 'pivot', 'hourly', 'samples'];
+  run.manifest.sort((a, b) => queryOrder.indexOf(a.query) - queryOrder.indexOf(b.query) || callOrder.indexOf(a.call) - callOrder.indexOf(b.call));
+  return { tables: results, values: run.values, manifest: run.manifest };
+}
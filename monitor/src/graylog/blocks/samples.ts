@@ -0,0 +1,67 @@
+import { GraylogApiService } from '../api.service';
+
+/**
+ * Sample message option of a report query
+ */
+export type SampleOptions = {
+  /** Number of most recent matching messages to attach */
+  limit: number;
+  /** Fields shown for each message */
+  fields: string[];
+};
+
+/**
+ * Fetch the most recent messages matching a report query as a results table
+ * @param graylogApi The Graylog API client
+ * @param query Report query with name, query string and optional samples option
+ * @param fromTimeISO Start time as ISO string
+ * @param toTimeISO End time as ISO string
+ * @param streamIds Optional array of stream IDs or titles to filter by
+ * @returns Table rows in {type, value} format, empty when the query has no samples option or the search fails
+ */
+export async function fetchSampleTable(
+  graylogApi: GraylogApiService,
+  query: { name: string; query: string; samples?: SampleOptions },
+  fromTimeISO: string,
+  toTimeISO: string,
+  streamIds?: string[]
+): Promise<any[]> {
+  try {
+    return await fetchSampleRows(graylogApi, query, fromTimeISO, toTimeISO, streamIds);
+  } catch (error) {
+    console.error(`Error fetching sample messages via API:`, error);
+    return [];
+  }
+}
+
+/**
+ * Fetch the most recent messages matching a report query as a results table, see fetchSampleTable
+ * @returns Table rows in {type, value} format, empty when the query has no samples option
+ * @throws Error when the search fails
+ */
+export async function fetchSampleRows(
+  graylogApi: GraylogApiService,
+  query: { name: string; query: string; samples?: SampleOptions },
+  fromTimeISO: string,
+  toTimeISO: string,
+  streamIds?: string[]
+): Promise<any[]> {
+  if (!query.samples) return [];
+  console.log(`\nFetching ${query.samples.limit} sample messages for ${query.name}...`);
+  const { messages } = await graylogApi.fetchMessagesByStreamIds(
+    query.query,
+    fromTimeISO,
+    toTimeISO,
+    query.samples.limit,
+    { fields: query.samples.fields, name: 'samples' },
+    streamIds,
+    { queryName: query.name }
+  );
+  return messages.map(message => {
+    const row: any = {};
+    for (const field of query.samples!.fields) {
+      row[field] = { type: 'text', value: message[field] };
+    }
+    return row;
+  });
+}
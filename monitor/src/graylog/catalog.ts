@@ -0,0 +1,449 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { intervalToMs, parseSeries } from './api.service';
+import { HistogramInterval, PivotGroup } from './types';
+import { SampleOptions } from './blocks/samples';
+import { parseExpression } from './expression';
+
+/**
+ * A report query of the query catalog
+ * Stream and view values are IDs or titles; `env:NAME` takes the value of the environment variable NAME
+ */
+export type CatalogQuery = {
+  /** Unique id blocks look the query up by, e.g. 'eapi.all-calls' */
+  id: string;
+  /** Display name used in reports and logs */
+  name: string;
+  /** Lucene query string, with `${NAME}` fragments and parameters expanded */
+  query: string;
+  /** Parameters of the query string, used before the catalog fragments of the same name */
+  params?: Record<string, string>;
+  /** Streams the query runs against */
+  streams: string[];
+  /** Search view opened for the screenshot */
+  view: string;
+  /** Row groups of grouped tables, as field names or { field, limit, sort, interval } */
+  groupBy?: Array<string | PivotGroup>;
+  /** Series ids such as 'avg(eapi_duration)' */
+  series?: string[];
+  /** Sample messages attached to the report */
+  samples?: SampleOptions;
+  /** Split the time range into windows of this size */
+  splitWindow?: HistogramInterval;
+  /** Free-form labels, e.g. the report the query belongs to */
+  tags: string[];
+};
+
+/**
+ * A metric derived from the stats of a report, e.g. a failure rate
+ */
+export type MetricDefinition = {
+  /** Unique id, also the key of the value in the stored stats, e.g. 'order.failed-rate' */
+  id: string;
+  /** Display name used in reports */
+  name: string;
+  /** Arithmetic expression over the stats of the day, e.g. 'order.failed / (order.success + order.failed)' */
+  expression: string;
+  /** How the value is rendered (default: number) */
+  format?: 'number' | 'percent';
+  /** Reports computing the metric */
+  tags: string[];
+};
+
+/**
+ * Content of the query catalog file after validation
+ */
+export type QueryCatalog = {
+  queries: CatalogQuery[];
+  metrics: MetricDefinition[];
+  /** Fragments that no query uses */
+  unusedFragments: string[];
+};
+
+/** Location of the query catalog */
+export const CATALOG_PATH = path.resolve(process.cwd(), 'src', 'graylog', 'queries.json');
+
+/** Prefix of stream and view values taken from an environment variable */
+const ENV_PREFIX = 'env:';
+
+const ID_PATTERN = /^[a-z0-9]+(?:[.-][a-z0-9]+)*$/;
+
+/** Name of a fragment or parameter */
+const FRAGMENT_NAME_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+/** Reference to a fragment or parameter within a query string */
+const FRAGMENT_REFERENCE = /\$\{([^}]*)\}/g;
+
+const METRIC_KEYS: Array<keyof MetricDefinition> = ['id', 'name', 'expression', 'format', 'tags'];
+
+const QUERY_KEYS: Array<keyof CatalogQuery> = ['id', 'name', 'query', 'params', 'streams', 'view', 'groupBy', 'series', 'samples', 'splitWindow', 'tags'];
+
+/**
+ * Check whether a value is an array of non-empty strings
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim() !== '');
+}
+
+/**
+ * Check a map of fragments or parameters
+ * @param value Raw map
+ * @param label Label of the map in problem messages
+ * @returns Problems found, empty when the map is valid
+ */
+function checkFragments(value: unknown, label: string): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [`${label} must be an object of NAME: "query text"`];
+  }
+  return Object.entries(value).flatMap(([name, text]) => [
+    ...(FRAGMENT_NAME_PATTERN.test(name) ? [] : [`${label}: name "${name}" must be uppercase letters, digits and _`]),
+    ...(typeof text === 'string' ? [] : [`${label}: "${name}" must be a string`]),
+  ]);
+}
+
+/**
+ * Expand the `${NAME}` references of a query string
+ * Parameters of the query win over catalog fragments; both may reference other fragments and parameters
+ * @param template Query string with references
+ * @param scope Parameters and fragments by name
+ * @param used Receives the names that were expanded
+ * @param stack Names being expanded, to detect cycles
+ * @returns Expanded query string
+ * @throws Error on an unknown name or a cycle
+ */
+function expandTemplate(template: string, scope: Record<string, string>, used: Set<string>, stack: string[] = []): string {
+  return template.replace(FRAGMENT_REFERENCE, (_, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(scope, name)) {
+      throw new Error(`unknown fragment or parameter \${${name}}`);
+    }
+    if (stack.includes(name)) {
+      throw new Error(`fragment cycle ${[...stack, name].join(' -> ')}`);
+    }
+    used.add(name);
+    return expandTemplate(scope[name], scope, used, [...stack, name]);
+  });
+}
+
+/**
+ * Check one groupBy entry
+ * @param group Field name or pivot group
+ * @returns Problem description, or null when the entry is valid
+ */
+function checkGroup(group: unknown): string | null {
+  if (typeof group === 'string') {
+    return group.trim() === '' ? 'empty field name' : null;
+  }
+  if (typeof group !== 'object' || group === null || Array.isArray(group)) {
+    return 'expected a field name or { "field": ... }';
+  }
+  const entry = group as Record<string, any>;
+  if (typeof entry.field !== 'string' || entry.field.trim() === '') return '"field" must be a non-empty string';
+  if (entry.limit !== undefined && (!Number.isInteger(entry.limit) || entry.limit <= 0)) return '"limit" must be a positive integer';
+  if (entry.sort !== undefined && entry.sort !== 'asc' && entry.sort !== 'desc') return '"sort" must be "asc" or "desc"';
+  if (entry.interval !== undefined) {
+    try {
+      intervalToMs(entry.interval);
+    } catch (error: any) {
+      return error.message;
+    }
+  }
+  const unknownKey = Object.keys(entry).find(key => !['field', 'limit', 'sort', 'interval'].includes(key));
+  return unknownKey ? `unknown key "${unknownKey}"` : null;
+}
+
+/**
+ * Check one catalog entry against the schema
+ * @param entry Raw catalog entry
+ * @param label Label of the entry in problem messages
+ * @returns Problems found, empty when the entry is valid
+ */
+function checkQuery(entry: any, label: string): string[] {
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    return [`${label}: expected an object`];
+  }
+  const problems: string[] = [];
+  const requireString = (key: 'id' | 'name' | 'query' | 'view') => {
+    if (typeof entry[key] !== 'string' || entry[key].trim() === '') {
+      problems.push(`${label}: "${key}" must be a non-empty string`);
+    }
+  };
+  requireString('id');
+  requireString('name');
+  requireString('query');
+  requireString('view');
+
+  if (entry.params !== undefined) {
+    problems.push(...checkFragments(entry.params, `${label}: "params"`));
+  }
+  if (typeof entry.id === 'string' && !ID_PATTERN.test(entry.id)) {
+    problems.push(`${label}: id must be lowercase words separated by "." or "-", e.g. "eapi.all-calls"`);
+  }
+  if (!isStringArray(entry.streams) || entry.streams.length === 0) {
+    problems.push(`${label}: "streams" must be a non-empty array of strings`);
+  }
+  if (!isStringArray(entry.tags)) {
+    problems.push(`${label}: "tags" must be an array of strings`);
+  }
+  if (entry.groupBy !== undefined) {
+    if (!Array.isArray(entry.groupBy)) {
+      problems.push(`${label}: "groupBy" must be an array of field names or groups`);
+    } else {
+      entry.groupBy.forEach((group: unknown, index: number) => {
+        const problem = checkGroup(group);
+        if (problem) problems.push(`${label}: groupBy[${index}]: ${problem}`);
+      });
+    }
+  }
+  if (entry.series !== undefined) {
+    if (!isStringArray(entry.series)) {
+      problems.push(`${label}: "series" must be an array of series ids`);
+    } else {
+      entry.series.forEach((seriesId: string) => {
+        try {
+          parseSeries(seriesId);
+        } catch (error: any) {
+          problems.push(`${label}: ${error.message}`);
+        }
+      });
+    }
+  }
+  if (entry.samples !== undefined) {
+    const samples = entry.samples;
+    if (typeof samples !== 'object' || samples === null
+      || !Number.isInteger(samples.limit) || samples.limit <= 0
+      || !isStringArray(samples.fields) || samples.fields.length === 0) {
+      problems.push(`${label}: "samples" must be { "limit": <positive integer>, "fields": [<field>, ...] }`);
+    }
+  }
+  if (entry.splitWindow !== undefined) {
+    try {
+      intervalToMs(entry.splitWindow);
+    } catch (error: any) {
+      problems.push(`${label}: ${error.message}`);
+    }
+  }
+  Object.keys(entry)
+    .filter(key => !QUERY_KEYS.includes(key as keyof CatalogQuery))
+    .forEach(key => problems.push(`${label}: unknown key "${key}"`));
+  return problems;
+}
+
+/**
+ * Check one derived metric against the schema
+ * @param entry Raw metric entry
+ * @param label Label of the entry in problem messages
+ * @returns Problems found, empty when the entry is valid
+ */
+function checkMetric(entry: any, label: string): string[] {
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    return [`${label}: expected an object`];
+  }
+  const problems: string[] = [];
+  (['id', 'name', 'expression'] as const).forEach(key => {
+    if (typeof entry[key] !== 'string' || entry[key].trim() === '') {
+      problems.push(`${label}: "${key}" must be a non-empty string`);
+    }
+  });
+  if (typeof entry.id === 'string' && !ID_PATTERN.test(entry.id)) {
+    problems.push(`${label}: id must be lowercase words separated by "." or "-", e.g. "order.failed-rate"`);
+  }
+  if (typeof entry.expression === 'string') {
+    try {
+      parseExpression(entry.expression);
+    } catch (error: any) {
+      problems.push(`${label}: invalid expression: ${error.message}`);
+    }
+  }
+  if (entry.format !== undefined && entry.format !== 'number' && entry.format !== 'percent') {
+    problems.push(`${label}: "format" must be "number" or "percent"`);
+  }
+  if (!isStringArray(entry.tags)) {
+    problems.push(`${label}: "tags" must be an array of strings`);
+  }
+  Object.keys(entry)
+    .filter(key => !METRIC_KEYS.includes(key as keyof MetricDefinition))
+    .forEach(key => problems.push(`${label}: unknown key "${key}"`));
+  return problems;
+}
+
+/**
+ * Validate the parsed content of a query catalog file and expand its query strings
+ * @param content Parsed JSON content
+ * @param source File the content was read from, used in errors
+ * @returns Catalog queries with unresolved stream and view values, derived metrics and the unused fragments
+ * @throws Error listing every schema, duplicate id and expansion problem
+ */
+export function parseQueryCatalog(content: unknown, source: string): QueryCatalog {
+  const entries = (content as any)?.queries;
+  if (!Array.isArray(entries)) {
+    throw new Error(`Invalid query catalog ${source}: expected { "queries": [...] }`);
+  }
+  const fragments = (content as any).fragments ?? {};
+  const problems: string[] = checkFragments(fragments, '"fragments"');
+  Object.keys(content as object)
+    .filter(key => !['queries', 'fragments', 'metrics'].includes(key))
+    .forEach(key => problems.push(`unknown top-level key "${key}"`));
+
+  const seen = new Set<string>();
+  const used = new Set<string>();
+  const queries: CatalogQuery[] = [];
+  entries.forEach((entry: any, index: number) => {
+    const label = typeof entry?.id === 'string' ? `query "${entry.id}"` : `queries[${index}]`;
+    const entryProblems = checkQuery(entry, label);
+    if (typeof entry?.id === 'string') {
+      if (seen.has(entry.id)) {
+        entryProblems.push(`${label}: duplicate id`);
+      }
+      seen.add(entry.id);
+    }
+    if (entryProblems.length === 0 && problems.length === 0) {
+      try {
+        const query = expandTemplate(entry.query, { ...fragments, ...entry.params }, used);
+        queries.push({ ...entry, query });
+      } catch (error: any) {
+        entryProblems.push(`${label}: ${error.message}`);
+      }
+    }
+    problems.push(...entryProblems);
+  });
+
+  const metrics = (content as any).metrics ?? [];
+  if (!Array.isArray(metrics)) {
+    problems.push('"metrics" must be an array');
+  } else {
+    const seenMetrics = new Set<string>();
+    metrics.forEach((entry: any, index: number) => {
+      const label = typeof entry?.id === 'string' ? `metric "${entry.id}"` : `metrics[${index}]`;
+      problems.push(...checkMetric(entry, label));
+      if (typeof entry?.id === 'string') {
+        if (seenMetrics.has(entry.id)) {
+          problems.push(`${label}: duplicate id`);
+        }
+        seenMetrics.add(entry.id);
+      }
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid query catalog ${source}:\n- ${problems.join('\n- ')}`);
+  }
+  return {
+    queries,
+    metrics,
+    unusedFragments: Object.keys(fragments).filter(name => !used.has(name)),
+  };
+}
+
+/**
+ * Read and validate a query catalog file
+ * @param filePath Catalog file (default: src/graylog/queries.json)
+ * @returns Expanded catalog queries with unresolved stream and view values, and the unused fragments
+ */
+export function readQueryCatalog(filePath: string = CATALOG_PATH): QueryCatalog {
+  let content: unknown;
+  try {
+    content = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Failed to read query catalog ${filePath}: ${error.message}`);
+  }
+  return parseQueryCatalog(content, filePath);
+}
+
+/**
+ * Get the name of the environment variable a stream or view value refers to
+ * @param value Stream or view value
+ * @returns Variable name, or null for a literal ID or title
+ */
+export function envReference(value: string): string | null {
+  return value.startsWith(ENV_PREFIX) ? value.slice(ENV_PREFIX.length) : null;
+}
+
+/**
+ * Resolve a stream or view value
+ * @param value ID, title or `env:NAME`
+ * @returns ID or title, empty when the environment variable is not set
+ */
+function resolveReference(value: string): string {
+  const envName = envReference(value);
+  return envName === null ? value : (process.env[envName] || '').trim();
+}
+
+/**
+ * Resolve the stream and view values of a catalog query
+ * @param query Catalog query
+ * @returns Copy of the query with stream and view IDs or titles
+ */
+export function resolveQuery(query: CatalogQuery): CatalogQuery {
+  return {
+    ...query,
+    streams: query.streams.map(resolveReference),
+    view: resolveReference(query.view),
+  };
+}
+
+let catalog: { queries: Map<string, CatalogQuery>; metrics: MetricDefinition[] } | null = null;
+
+/**
+ * Load the query catalog once per process
+ * @returns Resolved catalog queries keyed by id, and the derived metrics
+ */
+function loadQueryCatalog(): { queries: Map<string, CatalogQuery>; metrics: MetricDefinition[] } {
+  if (!catalog) {
+    const content = readQueryCatalog();
+    catalog = {
+      queries: new Map(content.queries.map(query => [query.id, resolveQuery(query)])),
+      metrics: content.metrics,
+    };
+  }
+  return catalog;
+}
+
+/**
+ * Look up a report query by id
+ * @param id Query id, e.g. 'eapi.all-calls'
+ * @returns Resolved catalog query
+ * @throws Error when the catalog has no query with this id
+ */
+export function getQuery(id: string): CatalogQuery {
+  const query = loadQueryCatalog().queries.get(id);
+  if (!query) {
+    throw new Error(`Unknown query id "${id}" in ${CATALOG_PATH}`);
+  }
+  return query;
+}
+
+/**
+ * Look up several report queries by id
+ * @param ids Query ids
+ * @returns Resolved catalog queries in the order of the ids
+ */
+export function getQueries(ids: string[]): CatalogQuery[] {
+  return ids.map(getQuery);
+}
+
+/**
+ * Collect the streams of a list of queries, e.g. to validate them before running a block
+ * @param queries Resolved catalog queries
+ * @returns Unique stream IDs or titles
+ */
+export function collectStreams(queries: CatalogQuery[]): string[] {
+  return Array.from(new Set(queries.flatMap(query => query.streams)));
+}
+
+/**
+ * Get the field names of the row groups of a query
+ * @param query Catalog query
+ * @returns Field names, outermost first
+ */
+export function groupByFields(query: CatalogQuery): string[] {
+  return (query.groupBy || []).map(group => typeof group === 'string' ? group : group.field);
+}
+
+/**
+ * Get the derived metrics of a report
+ * @param tag Report tag, e.g. 'daily-order'
+ * @returns Metric definitions in catalog order
+ */
+export function getMetrics(tag: string): MetricDefinition[] {
+  return loadQueryCatalog().metrics.filter(metric => metric.tags.includes(tag));
+}
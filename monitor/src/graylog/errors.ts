@@ -0,0 +1,71 @@
+/** HTTP statuses treated as transient failures */
+export const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+/**
+ * Error raised by the Graylog API client
+ * Carries the HTTP status (null for network errors, timeouts and aborts), the endpoint and the query name
+ */
+export class GraylogQueryError extends Error {
+  readonly status: number | null;
+  readonly endpoint: string;
+  readonly queryName?: string;
+  /** Whether the failure is transient and the request may be retried */
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    options: { status?: number | null; endpoint: string; queryName?: string; retryable?: boolean; cause?: unknown }
+  ) {
+    const status = options.status ?? null;
+    const context = [
+      status !== null ? `status ${status}` : null,
+      `endpoint ${options.endpoint}`,
+      options.queryName ? `query "${options.queryName}"` : null,
+    ].filter(Boolean).join(', ');
+    super(`Graylog API error (${context}): ${message}`, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = 'GraylogQueryError';
+    this.status = status;
+    this.endpoint = options.endpoint;
+    this.queryName = options.queryName;
+    this.retryable = options.retryable ?? (status !== null && RETRYABLE_STATUSES.includes(status));
+  }
+}
+
+/**
+ * Error raised when a Graylog response does not have the expected shape
+ * Carries the path of the unexpected value within the response
+ */
+export class GraylogResponseError extends Error {
+  /** Path of the unexpected value, e.g. 'results.<query id>.search_types.<id>.rows[3].values' */
+  readonly path: string;
+  /** Description of the problem without context */
+  readonly detail: string;
+  readonly queryName?: string;
+
+  constructor(detail: string, path: string, options: { queryName?: string } = {}) {
+    super(`Unexpected Graylog response${options.queryName ? ` for query "${options.queryName}"` : ''} at ${path || '<root>'}: ${detail}`);
+    this.name = 'GraylogResponseError';
+    this.path = path;
+    this.detail = detail;
+    this.queryName = options.queryName;
+  }
+}
+
+/**
+ * Error raised when a query string fails the syntax check, before it is sent to Graylog
+ * Carries the issues found by the query linter
+ */
+export class QuerySyntaxError extends Error {
+  /** Problems found, e.g. 'column 12: unterminated quoted phrase' */
+  readonly issues: string[];
+  readonly query: string;
+  readonly queryName?: string;
+
+  constructor(query: string, issues: string[], options: { queryName?: string } = {}) {
+    super(`Invalid query syntax${options.queryName ? ` in query "${options.queryName}"` : ''}: ${issues.join('; ')}\n  ${query}`);
+    this.name = 'QuerySyntaxError';
+    this.issues = issues;
+    this.query = query;
+    this.queryName = options.queryName;
+  }
+}
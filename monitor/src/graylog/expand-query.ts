@@ -0,0 +1,37 @@
+import { CatalogQuery, readQueryCatalog } from './catalog';
+
+/**
+ * Select catalog queries by id or tag
+ * @param queries Catalog queries
+ * @param selectors Query ids or tags, every query when empty
+ * @returns Matching queries in catalog order
+ * @throws Error when a selector matches no query
+ */
+export function selectQueries(queries: CatalogQuery[], selectors: string[]): CatalogQuery[] {
+  if (selectors.length === 0) return queries;
+  const unknown = selectors.filter(selector => !queries.some(query => query.id === selector || query.tags.includes(selector)));
+  if (unknown.length > 0) {
+    throw new Error(`No query with id or tag: ${unknown.join(', ')}`);
+  }
+  return queries.filter(query => selectors.some(selector => query.id === selector || query.tags.includes(selector)));
+}
+
+/**
+ * Format the expanded query strings for review
+ * @param queries Catalog queries
+ * @returns One block per query: id, name and the expanded query string
+ */
+export function formatExpandedQueries(queries: CatalogQuery[]): string {
+  return queries.map(query => `${query.id} (${query.name})\n  ${query.query}`).join('\n\n');
+}
+
+// Run as a command: npm run expand:queries [-- <id or tag> ...]
+if (require.main === module) {
+  try {
+    const queries = selectQueries(readQueryCatalog().queries, process.argv.slice(2));
+    console.log(formatExpandedQueries(queries));
+  } catch (error: any) {
+    console.error(error.message);
+    process.exit(1);
+  }
+}
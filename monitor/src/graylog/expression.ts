@@ -0,0 +1,157 @@
+/**
+ * Arithmetic expressions of derived metrics, e.g. `order.failed / (order.success + order.failed)`
+ * Supports numbers, dotted variable paths, + - * /, unary minus and parentheses; nothing is evaluated as code
+ */
+
+/**
+ * Looks up the value of a variable path
+ * Returns null when the value is missing or not a number
+ */
+export type VariableLookup = (path: string) => number | null;
+
+/**
+ * A parsed expression
+ */
+export type Expression = {
+  /** Source text */
+  text: string;
+  /** Variable paths used by the expression, in order of appearance */
+  variables: string[];
+  /**
+   * Evaluate the expression
+   * @returns Value, or null when a variable is missing or a division by zero occurs
+   */
+  evaluate: (lookup: VariableLookup) => number | null;
+};
+
+type Token = { kind: 'number' | 'variable' | 'operator'; text: string; index: number };
+
+type Node = (lookup: VariableLookup) => number | null;
+
+const TOKEN_PATTERN = /(\d+(?:\.\d+)?)|([A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*)|([-+*/()])/y;
+
+/**
+ * Split an expression into tokens
+ * @param text Expression text
+ * @returns Tokens
+ * @throws Error on an unexpected character
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < text.length) {
+    if (/\s/.test(text[index])) {
+      index++;
+      continue;
+    }
+    TOKEN_PATTERN.lastIndex = index;
+    const match = TOKEN_PATTERN.exec(text);
+    if (!match) {
+      throw new Error(`unexpected "${text[index]}" at column ${index + 1}`);
+    }
+    const kind = match[1] !== undefined ? 'number' : match[2] !== undefined ? 'variable' : 'operator';
+    tokens.push({ kind, text: match[0], index });
+    index += match[0].length;
+  }
+  return tokens;
+}
+
+/**
+ * Apply a binary operator, propagating missing values
+ */
+function applyOperator(operator: string, left: number | null, right: number | null): number | null {
+  if (left === null || right === null) return null;
+  switch (operator) {
+    case '+': return left + right;
+    case '-': return left - right;
+    case '*': return left * right;
+    default: return right === 0 ? null : left / right;
+  }
+}
+
+/**
+ * Parse an arithmetic expression
+ * @param text Expression text
+ * @returns Parsed expression
+ * @throws Error describing the syntax problem
+ */
+export function parseExpression(text: string): Expression {
+  const tokens = tokenize(text);
+  const variables: string[] = [];
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const fail = (message: string): never => {
+    const token = peek();
+    throw new Error(token ? `${message} at column ${token.index + 1}` : `${message} at the end`);
+  };
+
+  // expression := term (('+' | '-') term)*
+  const parseSum = (): Node => {
+    let node = parseProduct();
+    while (peek()?.kind === 'operator' && (peek().text === '+' || peek().text === '-')) {
+      const operator = tokens[position++].text;
+      const left = node;
+      const right = parseProduct();
+      node = lookup => applyOperator(operator, left(lookup), right(lookup));
+    }
+    return node;
+  };
+
+  // term := factor (('*' | '/') factor)*
+  const parseProduct = (): Node => {
+    let node = parseFactor();
+    while (peek()?.kind === 'operator' && (peek().text === '*' || peek().text === '/')) {
+      const operator = tokens[position++].text;
+      const left = node;
+      const right = parseFactor();
+      node = lookup => applyOperator(operator, left(lookup), right(lookup));
+    }
+    return node;
+  };
+
+  // factor := '-' factor | number | variable | '(' expression ')'
+  const parseFactor = (): Node => {
+    const token = peek();
+    if (!token) return fail('expected a value');
+    position++;
+    if (token.kind === 'number') {
+      const value = Number(token.text);
+      return () => value;
+    }
+    if (token.kind === 'variable') {
+      if (!variables.includes(token.text)) variables.push(token.text);
+      return lookup => lookup(token.text);
+    }
+    if (token.text === '-') {
+      const operand = parseFactor();
+      return lookup => {
+        const value = operand(lookup);
+        return value === null ? null : -value;
+      };
+    }
+    if (token.text === '(') {
+      const inner = parseSum();
+      if (peek()?.text !== ')') fail('expected ")"');
+      position++;
+      return inner;
+    }
+    position--;
+    return fail(`unexpected "${token.text}"`);
+  };
+
+  if (tokens.length === 0) {
+    throw new Error('empty expression');
+  }
+  const root = parseSum();
+  if (position < tokens.length) fail(`unexpected "${peek().text}"`);
+
+  return {
+    text,
+    variables,
+    evaluate: lookup => {
+      const value = root(lookup);
+      return value === null || !Number.isFinite(value) ? null : value;
+    },
+  };
+}
@@ -0,0 +1,133 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../config';
+import { GraylogApiService, parseSeries } from './api.service';
+
+/**
+ * The parts of a report query that reference message fields
+ */
+export type FieldQuery = {
+  name: string;
+  query: string;
+  groupBy?: Array<string | { field: string }>;
+  series?: string[];
+  samples?: { fields: string[] };
+  /** Stream IDs or titles the query runs against, all streams when missing */
+  streams?: string[];
+};
+
+/** Fields every message has, even when they are not listed for a stream */
+const BUILTIN_FIELDS = ['_id', 'message', 'source', 'timestamp', 'streams', 'gl2_message_id'];
+
+/** Snapshot of the fields seen by previous runs, keyed by stream IDs (GRAYLOG_FIELDS_SNAPSHOT_PATH) */
+const FIELDS_SNAPSHOT_PATH = path.resolve(process.cwd(), config.graylogFieldsSnapshotPath);
+
+/**
+ * Extract the field names referenced in a Lucene query, e.g. `eapi_method` from `eapi_method:SubmitOrder`
+ * Quoted phrases are ignored; `_exists_:field` references the field itself
+ * @param query The search query string
+ * @returns Unique field names in order of appearance
+ */
+export function extractQueryFields(query: string): string[] {
+  // Drop quoted phrases, they may contain colons that are not field references
+  const unquoted = query.replace(/"(?:[^"\\]|\\.)*"/g, '""');
+  const fields = new Set<string>();
+  const pattern = /(?<![\w.@\\-])([A-Za-z_@][\w.@-]*)\s*:\s*([\w.@-]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(unquoted)) !== null) {
+    if (match[1] === '_exists_') {
+      if (match[2]) fields.add(match[2]);
+    } else {
+      fields.add(match[1]);
+    }
+  }
+  return Array.from(fields);
+}
+
+/**
+ * Collect every field a report query depends on
+ * @param query Report query
+ * @returns Unique field names
+ */
+function collectFields(query: FieldQuery): string[] {
+  const fields = new Set<string>(extractQueryFields(query.query));
+  (query.groupBy || []).forEach(group => fields.add(typeof group === 'string' ? group : group.field));
+  (query.series || []).forEach(id => {
+    const field = parseSeries(id).field;
+    if (field) fields.add(field);
+  });
+  (query.samples?.fields || []).forEach(field => fields.add(field));
+  return Array.from(fields);
+}
+
+/**
+ * List the fields messages of the target streams can have
+ * @param graylogApi The Graylog API client
+ * @param streamIds Optional array of stream IDs or titles
+ * @returns Field names, including the fields every message has
+ */
+export async function listKnownFields(graylogApi: GraylogApiService, streamIds?: string[]): Promise<Set<string>> {
+  const resolvedStreamIds = (await graylogApi.resolveStreamIds(streamIds)) || [];
+  const fieldTypes = await graylogApi.listFieldTypes(resolvedStreamIds);
+  return new Set([...BUILTIN_FIELDS, ...fieldTypes.map(field => field.name)]);
+}
+
+/**
+ * Check that every field referenced by the report queries exists in the streams each query runs against
+ * Also warns about fields that disappeared since the previous run and stores the current field list
+ * @param graylogApi The Graylog API client
+ * @param queries Report queries with their query string, groupBy, series and samples fields and their streams
+ * @throws Error listing every unknown field per query
+ */
+export async function validateQueryFields(graylogApi: GraylogApiService, queries: FieldQuery[]): Promise<void> {
+  // Fields per stream combination, shared by the queries on the same streams
+  const knownByStreams = new Map<string, Set<string>>();
+  const problems: string[] = [];
+  for (const query of queries) {
+    const resolvedStreamIds = (await graylogApi.resolveStreamIds(query.streams)) || [];
+    const streamKey = resolvedStreamIds.length > 0 ? [...resolvedStreamIds].sort().join(',') : '*';
+    if (!knownByStreams.has(streamKey)) {
+      const fieldTypes = await graylogApi.listFieldTypes(resolvedStreamIds);
+      warnRemovedFields(streamKey, fieldTypes.map(field => field.name));
+      knownByStreams.set(streamKey, new Set([...BUILTIN_FIELDS, ...fieldTypes.map(field => field.name)]));
+    }
+    const known = knownByStreams.get(streamKey)!;
+    const unknown = collectFields(query).filter(field => !known.has(field));
+    if (unknown.length > 0) {
+      problems.push(`${query.name}: ${unknown.join(', ')}`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(`Unknown Graylog fields (renamed or removed from the log pipeline?):\n- ${problems.join('\n- ')}`);
+  }
+}
+
+/**
+ * Compare the current fields with the snapshot of the previous run, warn about removed ones and update the snapshot
+ * @param streamKey Snapshot key of the target streams
+ * @param fieldNames Fields currently available in the target streams
+ */
+function warnRemovedFields(streamKey: string, fieldNames: string[]): void {
+  try {
+    let snapshot: Record<string, { updatedAt: string; fields: string[] }> = {};
+    if (fs.existsSync(FIELDS_SNAPSHOT_PATH)) {
+      snapshot = JSON.parse(fs.readFileSync(FIELDS_SNAPSHOT_PATH, 'utf-8'));
+    }
+
+    const current = new Set(fieldNames);
+    const removed = (snapshot[streamKey]?.fields || []).filter(field => !current.has(field));
+    if (removed.length > 0) {
+      console.warn(`Graylog fields missing since the previous run (streams ${streamKey}): ${removed.join(', ')}`);
+    }
+
+    snapshot[streamKey] = {
+      updatedAt: new Date().toISOString(),
+      fields: [...fieldNames].sort(),
+    };
+    fs.mkdirSync(path.dirname(FIELDS_SNAPSHOT_PATH), { recursive: true });
+    fs.writeFileSync(FIELDS_SNAPSHOT_PATH, JSON.stringify(snapshot, null, 2));
+  } catch (error) {
+    console.error('Failed to update graylog-fields.json:', error);
+    // Don't fail the run if the snapshot can't be read or written
+  }
+}
@@ -1,5 +1,6 @@
 import { Page, expect } from '@playwright/test';
 import { config } from '../config';
+import { GraylogApiService } from './api.service';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -7,6 +8,8 @@ import * as path from 'path';
  * Helper functions for Graylog automation
  */
 export class GraylogHelper {
+  private graylogApi = new GraylogApiService();
+
   constructor(private page: Page) {}
 
   /**
@@ -149,12 +152,15 @@ export class GraylogHelper {
 
   /**
    * Login if needed and visit a search view page
-   * @param searchViewId The search view ID
+   * @param searchViewId The search view ID or title
    * @param username Optional username (defaults to GRAYLOG_USERNAME from .env)
    * @param password Optional password (defaults to GRAYLOG_PASSWORD from .env)
    */
   async loginAndVisitSearchView(searchViewId: string, username?: string, password?: string): Promise<void> {
     // Browser window is maximized via --start-maximized launch argument
+
+    // Views may be configured by title, the URL needs the ID
+    searchViewId = await this.graylogApi.resolveViewId(searchViewId);
     
     // Check if already logged in
     const loggedIn = await this.isLoggedIn();
@@ -0,0 +1,262 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../config';
+import { uploadFolderToS3 } from '../utils/uploadToS3';
+import { buildAndSendAdaptiveCard } from '../utils/sendToMsTeams';
+import { formatLocalTime, parseUTCTime } from '../utils/utils';
+import { BlockResult, executeBlock } from './blocks/runner';
+import { getBlock, valueQueryIds } from './blocks/definitions';
+import { QueryCall, buildDataProblemsTables, writeManifest } from './blocks/manifest';
+
+/**
+ * A check of the intraday mode: a value of a report block over the last minutes, compared with thresholds
+ */
+export type IntradayCheck = {
+  id: string;
+  /** Name used in the Teams card */
+  title: string;
+  /** Block of src/graylog/blocks.json that produces the value */
+  block: string;
+  /** Block value, e.g. 'failed' of the order block */
+  value: string;
+  /** Length of the rolling window ending now */
+  minutes: number;
+  /** Breach when the value is above this number */
+  max?: number;
+  /** Breach when the value is above this ratio of the same window one week earlier, e.g. 2 for twice as many */
+  maxRatio?: number;
+  /** Values below this number never breach maxRatio, so that 2 failures after 1 do not alert (default: 0) */
+  minValue?: number;
+};
+
+/**
+ * Time range of a window in the report format, 'YYYY-MM-DD HH:mm:ss'
+ */
+export type IntradayWindow = { fromTime: string; toTime: string };
+
+/**
+ * Outcome of a check
+ */
+export type IntradayCheckResult = {
+  check: IntradayCheck;
+  /** Null when the block did not produce the value */
+  value: number | null;
+  /** Value of the same window one week earlier, null when the check has no maxRatio or the value is missing */
+  lastWeek: number | null;
+  /** Why the check breached, empty when it did not */
+  breaches: string[];
+};
+
+/**
+ * Checks run by `npm run intraday`
+ */
+export const INTRADAY_CHECKS: IntradayCheck[] = [
+  {
+    id: 'order-failures',
+    title: 'SubmitOrder failures',
+    block: 'order',
+    value: 'failed',
+    minutes: 60,
+    max: 50,
+    maxRatio: 3,
+    minValue: 10,
+  },
+  {
+    id: 'eapi-5xx',
+    title: 'EAPI 5xx',
+    block: 'eapi',
+    value: 'errors5xx',
+    minutes: 60,
+    max: 20,
+    maxRatio: 3,
+    minValue: 5,
+  },
+];
+
+/**
+ * Look up an intraday check by id
+ * @param id Check id, e.g. 'order-failures'
+ * @returns Check definition
+ * @throws Error when there is no check with this id
+ */
+export function getIntradayCheck(id: string): IntradayCheck {
+  const check = INTRADAY_CHECKS.find(item => item.id === id);
+  if (!check) {
+    throw new Error(`Unknown intraday check "${id}", known: ${INTRADAY_CHECKS.map(item => item.id).join(', ')}`);
+  }
+  return check;
+}
+
+/**
+ * Compute the window of the last minutes before an end time, in local time (UTC-8) like the daily reports
+ * @param end End of the window, rounded down to the minute
+ * @param minutes Length of the window
+ * @param shiftDays Move the window this many days back, e.g. 7 for the same window last week
+ * @returns Window from the first second to the last second, e.g. 09:00:00 to 09:59:59
+ */
+export function rollingWindow(end: Date, minutes: number, shiftDays: number = 0): IntradayWindow {
+  const endMs = Math.floor(end.getTime() / 60000) * 60000 - shiftDays * 24 * 60 * 60 * 1000;
+  const startMs = endMs - minutes * 60 * 1000;
+  return {
+    fromTime: `${formatLocalTime(new Date(startMs).toISOString(), -8)}:00`,
+    toTime: `${formatLocalTime(new Date(endMs - 1000).toISOString(), -8)}:59`,
+  };
+}
+
+/**
+ * Compare the value of a check with its thresholds
+ * @param check Check definition
+ * @param value Value of the window, null when missing
+ * @param lastWeek Value of the same window one week earlier, null when missing
+ * @returns Reasons of the breach, empty when the value is within the thresholds
+ */
+export function evaluateCheck(check: IntradayCheck, value: number | null, lastWeek: number | null): string[] {
+  const breaches: string[] = [];
+  if (value === null) return breaches;
+  if (check.max !== undefined && value > check.max) {
+    breaches.push(`${value} is above ${check.max}`);
+  }
+  if (check.maxRatio !== undefined && lastWeek !== null && value >= (check.minValue ?? 0)) {
+    // No traffic last week: any value at or above minValue is a jump
+    if (lastWeek === 0 && value > 0) {
+      breaches.push(`${value} after none last week`);
+    } else if (lastWeek > 0 && value / lastWeek > check.maxRatio) {
+      breaches.push(`${value} is more than ${check.maxRatio}x the ${lastWeek} of last week`);
+    }
+  }
+  return breaches;
+}
+
+/** API calls a block value is computed from; sample messages and summary series do not change it */
+const VALUE_CALLS: QueryCall[] = ['count', 'grouped', 'hourly'];
+
+/**
+ * Read the value of a check from the values of its block
+ * @param result Block result, undefined when the block failed
+ * @param check Check definition
+ * @returns Number, or null when the value is missing or one of the queries it is computed from failed
+ */
+function readValue(result: BlockResult | undefined, check: IntradayCheck): number | null {
+  if (!result) return null;
+  const queryIds = valueQueryIds(getBlock(check.block), check.value);
+  const failed = result.manifest.find(entry => entry.status === 'failed' && VALUE_CALLS.includes(entry.call) && queryIds.includes(entry.query));
+  if (failed) {
+    console.warn(`Intraday check ${check.id} has no data: query "${failed.name}" failed`);
+    return null;
+  }
+  const value = result.values[check.value];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Build the table of the check results for results.json and the Teams card
+ * @param results Check results
+ * @returns Table rows in {type, value} format
+ */
+function buildChecksTable(results: IntradayCheckResult[]): any[] {
+  return results.map(({ check, value, lastWeek, breaches }) => ({
+    check: { type: 'text', value: check.title },
+    window: { type: 'text', value: `${check.minutes} min` },
+    value: { type: 'text', value },
+    lastWeek: { type: 'text', value: lastWeek },
+    status: { type: 'text', value: breaches.length > 0 ? `ALERT: ${breaches.join('; ')}` : value === null ? 'NO DATA' : 'OK' },
+  }));
+}
+
+/**
+ * Run intraday checks over the last minutes and post to Teams only when a check crosses a threshold or has no data
+ * Each block needed by the checks runs once per window length, API-only and without updating daily-stats.json;
+ * checks with maxRatio also run it over the same window one week earlier
+ * @param checks Checks to run
+ * @param end End of the windows, by default INTRADAY_END_TIME or now
+ * @returns Check results in check order
+ */
+export async function runIntraday(checks: IntradayCheck[], end: Date = intradayEnd()): Promise<IntradayCheckResult[]> {
+  const stamp = formatLocalTime(end.toISOString(), -8).replace(' ', 'T').replace(':', '');
+  const prefix = `intraday/${stamp}`;
+  const resultsDir = path.resolve(process.cwd(), 'src', 'graylog', 'result', 'intraday', stamp);
+  if (!fs.existsSync(resultsDir)) {
+    fs.mkdirSync(resultsDir, { recursive: true });
+  }
+
+  // One run per block, window length and week, shared by the checks that need it
+  const runs = new Map<string, BlockResult | undefined>();
+  const runBlockWindow = async (block: string, minutes: number, shiftDays: number): Promise<BlockResult | undefined> => {
+    const key = `${block}:${minutes}:${shiftDays}`;
+    if (!runs.has(key)) {
+      const window = rollingWindow(end, minutes, shiftDays);
+      console.log(`\n=== Intraday ${block} block, ${window.fromTime} to ${window.toTime} ===`);
+      try {
+        const blockPrefix = shiftDays > 0 ? `${prefix}-last-week` : prefix;
+        runs.set(key, await executeBlock(block, null, window.fromTime, window.toTime, blockPrefix, { dailyStats: false }));
+      } catch (error) {
+        console.error(`Intraday ${block} block failed:`, error);
+        runs.set(key, undefined);
+      }
+    }
+    return runs.get(key);
+  };
+
+  // Blocks run one after the other like in the daily reports
+  const startedAt = new Date();
+  const results: IntradayCheckResult[] = [];
+  for (const check of checks) {
+    const value = readValue(await runBlockWindow(check.block, check.minutes, 0), check);
+    const lastWeek = check.maxRatio !== undefined
+      ? readValue(await runBlockWindow(check.block, check.minutes, 7), check)
+      : null;
+    const breaches = evaluateCheck(check, value, lastWeek);
+    console.log(`Intraday check ${check.id}: value=${value ?? 'N/A'}, lastWeek=${lastWeek ?? 'N/A'}, ${breaches.length > 0 ? `ALERT: ${breaches.join('; ')}` : value === null ? 'NO DATA' : 'OK'}`);
+    results.push({ check, value, lastWeek, breaches });
+  }
+
+  // Data problems of every window, so that NO DATA or a low value is not read as healthy
+  const manifest = Array.from(runs.values()).flatMap(run => run?.manifest ?? []);
+  const window = rollingWindow(end, Math.max(...checks.map(check => check.minutes)));
+  writeManifest(resultsDir, 'intraday', window.fromTime, window.toTime, startedAt, manifest);
+
+  // Tables of the blocks with a breach follow the checks, as evidence
+  const tables: any[][] = [buildChecksTable(results), ...buildDataProblemsTables(manifest)];
+  const breachedBlocks = new Set(results.filter(result => result.breaches.length > 0).map(result => `${result.check.block}:${result.check.minutes}:0`));
+  for (const key of breachedBlocks) {
+    const tablesOfBlock = runs.get(key)?.tables ?? [];
+    tables.push([{ [`${key.split(':')[0]} block`]: { type: 'separator' } }], ...tablesOfBlock);
+  }
+  const jsonPath = path.join(resultsDir, 'results.json');
+  fs.writeFileSync(jsonPath, JSON.stringify(tables, null, 2));
+  console.log(`\nResults written to: ${jsonPath}`);
+
+  // A check without data may hide a breach: Graylog queries failing must not look like a quiet hour
+  const noData = results.filter(result => result.value === null);
+  if (breachedBlocks.size === 0 && noData.length === 0) {
+    console.log('No intraday threshold crossed, nothing sent to MS Teams');
+    return results;
+  }
+  if (config.reportImages === 'chart') {
+    try {
+      await uploadFolderToS3(resultsDir, `${config.s3Prefix || ''}/intraday`);
+    } catch (error) {
+      console.error('Failed to upload to S3:', error);
+    }
+  }
+  if (config.msTeamWebhookUrl) {
+    try {
+      const title = breachedBlocks.size > 0 ? 'Intraday alert' : `Intraday warning: no data for ${noData.map(result => result.check.title).join(', ')}`;
+      await buildAndSendAdaptiveCard(`${title} - ${window.fromTime} to ${window.toTime}`, tables);
+      console.log('Alert sent to MS Teams successfully');
+    } catch (error) {
+      console.error('Failed to send alert to MS Teams:', error);
+    }
+  } else {
+    console.log('MS_TEAM_WEBHOOK_URL not configured, skipping MS Teams alert');
+  }
+  return results;
+}
+
+/**
+ * End of the intraday windows: INTRADAY_END_TIME ('YYYY-MM-DD HH:mm:ss', UTC-8) to replay a past moment, otherwise now
+ * @returns End time
+ */
+function intradayEnd(): Date {
+  return config.intradayEndTime ? new Date(parseUTCTime(config.intradayEndTime, -8)) : new Date();
+}
@@ -0,0 +1,244 @@
+/**
+ * Linter for the Graylog/Elasticsearch query string syntax used by the report queries
+ * Covers terms, field:value, quoted phrases, groups, ranges, AND/OR/NOT (&&, ||, !) and +/- prefixes
+ */
+
+/**
+ * A problem found in a query string
+ */
+export type QueryLintIssue = {
+  /** Errors make Graylog reject the query or change its meaning; warnings are likely mistakes */
+  severity: 'error' | 'warning';
+  message: string;
+  /** 1-based column of the problem */
+  column: number;
+};
+
+/** Binary operators */
+const BINARY_OPERATORS = ['AND', 'OR', '&&', '||'];
+
+/** Unary operators */
+const UNARY_OPERATORS = ['NOT', '!'];
+
+/** Operators in lowercase, which Lucene searches as plain words */
+const LOWERCASE_OPERATORS = ['and', 'or', 'not'];
+
+/** Characters that end a term */
+const TERM_END = /[\s()"[\]{}]/;
+
+/** Comparison written with an operator Lucene does not know, e.g. `eapi_method=SubmitOrder` */
+const UNKNOWN_COMPARISON = /^[A-Za-z_@][\w.@-]*(==|!=|<>|=)/;
+
+/** What came before the current token */
+type Previous = 'start' | 'open' | 'operand' | 'binary' | 'unary' | 'field';
+
+/**
+ * Find the first unescaped occurrence of a character
+ * @param text Text to search
+ * @param char Character to find
+ * @param from Index to start at
+ * @returns Index, or -1 when not found
+ */
+function findUnescaped(text: string, char: string, from: number): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === char) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split a term at its first unescaped colon
+ * @param term Term text
+ * @returns Field and value, or null when the term has no field
+ */
+function splitField(term: string): { field: string; value: string } | null {
+  const index = findUnescaped(term, ':', 0);
+  return index <= 0 ? null : { field: term.slice(0, index), value: term.slice(index + 1) };
+}
+
+/**
+ * Check whether a term value starts with a wildcard, which Graylog rejects by default
+ * A lone `*` (any value) is allowed
+ */
+function hasLeadingWildcard(value: string): boolean {
+  return /^[*?]/.test(value) && value !== '*';
+}
+
+/**
+ * Check a query string for syntax problems
+ * @param query The search query string
+ * @param options knownFields flags fields that are not in this list
+ * @returns Issues in order of appearance, empty when the query is fine
+ */
+export function lintQuery(query: string, options: { knownFields?: Set<string> } = {}): QueryLintIssue[] {
+  const issues: QueryLintIssue[] = [];
+  const fields: Array<{ name: string; column: number }> = [];
+  const openGroups: number[] = [];
+  let previous: Previous = 'start';
+  let lastOperator = { text: '', column: 0 };
+  let lastField = { text: '', column: 0 };
+
+  const add = (severity: QueryLintIssue['severity'], message: string, index: number) => {
+    issues.push({ severity, message, column: index + 1 });
+  };
+  // Report a field whose value is missing before an operator, a closing group or the end
+  const checkFieldValue = () => {
+    if (previous === 'field') {
+      add('error', `field "${lastField.text}" has no value`, lastField.column);
+    }
+  };
+
+  let i = 0;
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(') {
+      openGroups.push(i);
+      previous = 'open';
+      i++;
+      continue;
+    }
+
+    if (char === ')') {
+      checkFieldValue();
+      if (openGroups.length === 0) {
+        add('error', 'unmatched ")"', i);
+      } else {
+        openGroups.pop();
+      }
+      if (previous === 'binary' || previous === 'unary') {
+        add('error', `"${lastOperator.text}" has no right operand`, lastOperator.column);
+      }
+      previous = 'operand';
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      const end = findUnescaped(query, '"', i + 1);
+      if (end < 0) {
+        add('error', 'unterminated quoted phrase', i);
+        previous = 'operand';
+        break;
+      }
+      previous = 'operand';
+      // Proximity and boost modifiers, e.g. "a b"~2 or "a b"^2
+      i = end + 1;
+      while (i < query.length && /[~^\d.]/.test(query[i])) i++;
+      continue;
+    }
+
+    if (char === '[' || char === '{') {
+      const end = query.slice(i + 1).search(/[\]}]/);
+      if (end < 0) {
+        add('error', `unterminated range "${char}"`, i);
+        previous = 'operand';
+        break;
+      }
+      if (!/\sTO\s/.test(query.slice(i + 1, i + 1 + end))) {
+        add('error', 'range without "TO", e.g. [100 TO 200]', i);
+      }
+      previous = 'operand';
+      i = i + 1 + end + 1;
+      continue;
+    }
+
+    if (char === ']' || char === '}') {
+      add('error', `unmatched "${char}"`, i);
+      i++;
+      continue;
+    }
+
+    // Term: read up to whitespace or a group, phrase or range
+    const start = i;
+    while (i < query.length && !TERM_END.test(query[i])) {
+      i += query[i] === '\\' ? 2 : 1;
+    }
+    const term = query.slice(start, i);
+
+    if (BINARY_OPERATORS.includes(term)) {
+      checkFieldValue();
+      if (previous === 'start' || previous === 'open' || previous === 'binary' || previous === 'unary') {
+        add('error', `"${term}" has no left operand`, start);
+      }
+      previous = 'binary';
+      lastOperator = { text: term, column: start };
+      continue;
+    }
+    if (UNARY_OPERATORS.includes(term)) {
+      checkFieldValue();
+      previous = 'unary';
+      lastOperator = { text: term, column: start };
+      continue;
+    }
+    if (LOWERCASE_OPERATORS.includes(term)) {
+      add('warning', `"${term}" is searched as a word, write ${term.toUpperCase()} for the operator`, start);
+    }
+
+    // Required and prohibited prefixes, e.g. +field:value or -field:value
+    const text = term.replace(/^[+-]/, '');
+    const offset = start + term.length - text.length;
+    const comparison = text.match(UNKNOWN_COMPARISON);
+    if (comparison) {
+      add('error', `unknown operator "${comparison[1]}" in "${text}", write field:value`, offset);
+    }
+
+    const fieldValue = splitField(text);
+    if (fieldValue) {
+      if (fieldValue.field === '_exists_') {
+        if (fieldValue.value) fields.push({ name: fieldValue.value, column: offset + fieldValue.field.length + 2 });
+      } else {
+        fields.push({ name: fieldValue.field, column: offset + 1 });
+      }
+      const value = fieldValue.value.replace(/^(>=|<=|>|<)/, '');
+      if (fieldValue.value === '') {
+        // The value follows as a term, group, phrase or range, e.g. `eapi_method: SubmitOrder`
+        previous = 'field';
+        lastField = { text: fieldValue.field, column: offset };
+        continue;
+      }
+      if (value === '') {
+        add('error', `comparison "${fieldValue.value}" has no value`, offset);
+      } else if (hasLeadingWildcard(value)) {
+        add('error', `leading wildcard in "${text}" is not allowed by Graylog`, offset);
+      }
+    } else if (hasLeadingWildcard(text)) {
+      add('error', `leading wildcard in "${text}" is not allowed by Graylog`, offset);
+    }
+    previous = 'operand';
+  }
+
+  checkFieldValue();
+  if (previous === 'binary' || previous === 'unary') {
+    add('error', `"${lastOperator.text}" has no right operand`, lastOperator.column);
+  }
+  openGroups.forEach(index => add('error', 'unclosed "("', index));
+
+  if (options.knownFields) {
+    const reported = new Set<string>();
+    fields.forEach(field => {
+      if (!options.knownFields!.has(field.name) && !reported.has(field.name)) {
+        reported.add(field.name);
+        add('error', `unknown field "${field.name}"`, field.column - 1);
+      }
+    });
+  }
+  return issues.sort((a, b) => a.column - b.column);
+}
+
+/**
+ * Format lint issues for logs and errors
+ * @param issues Issues of one query
+ * @returns One line per issue, e.g. 'column 12: unterminated quoted phrase'
+ */
+export function formatLintIssues(issues: QueryLintIssue[]): string[] {
+  return issues.map(issue => `column ${issue.column}: ${issue.severity === 'warning' ? 'warning: ' : ''}${issue.message}`);
+}
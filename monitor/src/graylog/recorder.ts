@@ -0,0 +1,179 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { config } from '../config';
+
+/**
+ * Record/replay mode of the Graylog API client
+ * - off: talk to Graylog
+ * - record: talk to Graylog and save every search result to the recordings directory
+ * - replay: serve saved results only, without any network request
+ */
+export type GraylogRecordMode = 'off' | 'record' | 'replay';
+
+const RECORD_MODES: GraylogRecordMode[] = ['off', 'record', 'replay'];
+
+/**
+ * Convert a time value of a search time range to a normalized ISO string
+ * @param value Time as ISO string or epoch milliseconds
+ * @returns ISO string, or the value unchanged when it is not a time
+ */
+function normalizeTime(value: any): any {
+  const time = new Date(value).getTime();
+  return value === undefined || Number.isNaN(time) ? value : new Date(time).toISOString();
+}
+
+/**
+ * Drop the ids and names we generate ourselves from a search type, they differ between runs
+ * @param searchType Search type of a search body
+ * @returns Search type without id and name
+ */
+function normalizeSearchType(searchType: any): any {
+  const { id, name, ...rest } = searchType;
+  return rest;
+}
+
+/**
+ * Build the recording key of a search body from its queries, time ranges, streams and search types
+ * Generated ids are left out so the same search always has the same key
+ * @param body Search body
+ * @returns Key data, hashed to name the recording
+ */
+export function normalizeSearchKey(body: any): any {
+  return {
+    queries: (body.queries || []).map((query: any) => ({
+      query: query.query?.query_string ?? '',
+      timerange: {
+        ...query.timerange,
+        from: normalizeTime(query.timerange?.from),
+        to: normalizeTime(query.timerange?.to),
+      },
+      streams: ((query.filter?.filters || []) as any[]).map(filter => filter.id).sort(),
+      search_types: (query.search_types || []).map(normalizeSearchType),
+    })),
+  };
+}
+
+/**
+ * Rekey a search result by position (q0, q0.st0, ...) instead of by the ids of the search body
+ * @param result Final search result
+ * @param body Search body the result belongs to
+ * @returns Result keyed by position
+ */
+export function normalizeSearchResult(result: any, body: any): any {
+  const results: Record<string, any> = {};
+  const queryIds = Object.keys(result?.results || {});
+  (body.queries || []).forEach((query: any, queryIndex: number) => {
+    // Graylog assigns query ids when the body has none, fall back to the result order
+    const queryResult = result.results[query.id ?? queryIds[queryIndex]];
+    if (!queryResult) return;
+    const searchTypeIds = Object.keys(queryResult.search_types || {});
+    const searchTypes: Record<string, any> = {};
+    (query.search_types || []).forEach((searchType: any, typeIndex: number) => {
+      const searchTypeResult = queryResult.search_types[searchType.id ?? searchTypeIds[typeIndex]];
+      if (searchTypeResult) {
+        searchTypes[`st${typeIndex}`] = { ...searchTypeResult, id: `st${typeIndex}` };
+      }
+    });
+    results[`q${queryIndex}`] = { ...queryResult, query: undefined, search_types: searchTypes };
+  });
+  return {
+    execution: result?.execution,
+    errors: result?.errors || [],
+    results,
+  };
+}
+
+/**
+ * Rekey a positional search result with the ids of a search body
+ * @param recorded Result keyed by position
+ * @param body Search body of the current run
+ * @returns Completed search result keyed like a live result
+ */
+export function denormalizeSearchResult(recorded: any, body: any): any {
+  const results: Record<string, any> = {};
+  (body.queries || []).forEach((query: any, queryIndex: number) => {
+    const queryResult = recorded.results[`q${queryIndex}`];
+    if (!queryResult) return;
+    const searchTypes: Record<string, any> = {};
+    (query.search_types || []).forEach((searchType: any, typeIndex: number) => {
+      const id = searchType.id ?? `st${typeIndex}`;
+      const searchTypeResult = queryResult.search_types[`st${typeIndex}`];
+      if (searchTypeResult) {
+        searchTypes[id] = { ...searchTypeResult, id };
+      }
+    });
+    results[query.id ?? `q${queryIndex}`] = { ...queryResult, query, search_types: searchTypes };
+  });
+  return {
+    execution: { done: true, cancelled: false, completed_exceptionally: false, ...recorded.execution },
+    errors: recorded.errors || [],
+    results,
+  };
+}
+
+/**
+ * Saves and serves Graylog API results keyed by a hash of the normalized request
+ */
+export class GraylogRecorder {
+  readonly mode: GraylogRecordMode;
+  private dir: string;
+
+  /**
+   * @param mode Record mode (default: GRAYLOG_RECORD_MODE)
+   * @param dir Recordings directory (default: GRAYLOG_RECORDINGS_DIR)
+   */
+  constructor(mode: string = config.graylogRecordMode, dir: string = config.graylogRecordingsDir) {
+    if (!RECORD_MODES.includes(mode as GraylogRecordMode)) {
+      throw new Error(`Unknown GRAYLOG_RECORD_MODE "${mode}", expected one of: ${RECORD_MODES.join(', ')}`);
+    }
+    this.mode = mode as GraylogRecordMode;
+    this.dir = path.resolve(process.cwd(), dir);
+  }
+
+  /**
+   * Run a live request, or serve its recording depending on the mode
+   * @param kind Kind of request, used as prefix of the recording file name (e.g. 'search', 'streams')
+   * @param keyData Normalized request data identifying the recording
+   * @param live Performs the request against Graylog
+   * @returns Live or recorded value
+   */
+  async run<T>(kind: string, keyData: any, live: () => Promise<T>): Promise<T> {
+    if (this.mode === 'off') {
+      return live();
+    }
+
+    const hash = createHash('sha256').update(JSON.stringify(keyData)).digest('hex').slice(0, 16);
+    const filePath = path.join(this.dir, `${kind}-${hash}.json`);
+
+    if (this.mode === 'replay') {
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`No recording for ${kind} ${hash} in ${this.dir} (request: ${JSON.stringify(keyData).slice(0, 300)})`);
+      }
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8')).value as T;
+    }
+
+    const value = await live();
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify({
+      kind,
+      recordedAt: new Date().toISOString(),
+      key: keyData,
+      value,
+    }, null, 2));
+    return value;
+  }
+}
+
+let sharedRecorder: GraylogRecorder | null = null;
+
+/**
+ * Get the recorder shared by all API clients
+ * @returns Shared Graylog recorder for the configured mode
+ */
+export function getGraylogRecorder(): GraylogRecorder {
+  if (!sharedRecorder) {
+    sharedRecorder = new GraylogRecorder();
+  }
+  return sharedRecorder;
+}
@@ -0,0 +1,143 @@
+import { Page } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../config';
+import { uploadFolderToS3 } from '../utils/uploadToS3';
+import { buildAndSendAdaptiveCard } from '../utils/sendToMsTeams';
+import { executeBlock } from './blocks/runner';
+import { ManifestEntry, buildDataProblemsTables, writeManifest } from './blocks/manifest';
+
+/**
+ * A scheduled report: the blocks it runs and where its results go
+ */
+export type ReportDefinition = {
+  /** Result folder and S3 prefix, e.g. 'daily-1' */
+  id: string;
+  /** Name used in the Teams card title */
+  title: string;
+  /** Blocks of src/graylog/blocks.json in report order, each after a separator row */
+  blocks: Array<{ separator: string; block: string }>;
+};
+
+/**
+ * Reports run by the Playwright scenarios and by `npm run report`
+ */
+export const REPORTS: ReportDefinition[] = [
+  {
+    id: 'daily-1',
+    title: 'Daily 1',
+    blocks: [
+      { separator: 'Order Report', block: 'order' },
+    ],
+  },
+  {
+    id: 'daily-2',
+    title: 'Daily 2',
+    blocks: [
+      { separator: 'Paypal Report', block: 'paypal' },
+      { separator: 'Open Check Report', block: 'open-check' },
+      { separator: 'Payment Report', block: 'payment' },
+    ],
+  },
+];
+
+/**
+ * Look up a report by id
+ * @param id Report id, e.g. 'daily-1'
+ * @returns Report definition
+ * @throws Error when there is no report with this id
+ */
+export function getReport(id: string): ReportDefinition {
+  const report = REPORTS.find(item => item.id === id);
+  if (!report) {
+    throw new Error(`Unknown report "${id}", known: ${REPORTS.map(item => item.id).join(', ')}`);
+  }
+  return report;
+}
+
+/**
+ * Run a report for the configured time range: run its blocks, upload the screenshots to S3, write results.json and manifest.json and send the Teams card
+ * The card starts with a "Data problems" section when a query failed, is incomplete or returned suspiciously empty data
+ * @param report Report definition
+ * @param page Playwright page for the search views and screenshots, null for an API-only run without browser
+ * @returns Result tables as written to results.json
+ */
+export async function runReport(report: ReportDefinition, page: Page | null): Promise<any[][]> {
+  // Check if time range is configured
+  if (!config.graylogQueryFromTime || !config.graylogQueryToTime) {
+    throw new Error('GRAYLOG_QUERY_FROM_TIME and GRAYLOG_QUERY_TO_TIME environment variables must be set');
+  }
+
+  const fromTime = config.graylogQueryFromTime;
+  const toTime = config.graylogQueryToTime;
+
+  const datetimeFolder = fromTime.split(' ')[0];
+  const prefix = `${report.id}/${datetimeFolder}`;
+
+  // Create results directory with datetime folder
+  const resultsDir = path.resolve(process.cwd(), 'src', 'graylog', 'result', report.id, datetimeFolder);
+  if (!fs.existsSync(resultsDir)) {
+    fs.mkdirSync(resultsDir, { recursive: true });
+  }
+  if (!page && config.reportImages !== 'chart') {
+    console.log(`\nAPI-only run of ${report.title}: search views and screenshots are skipped`);
+  }
+
+  const startedAt = new Date();
+  const blockTables: any[][] = [];
+  const manifest: ManifestEntry[] = [];
+  for (const { separator, block } of report.blocks) {
+    blockTables.push([{ [separator]: { type: 'separator' } }]);
+    const result = await executeBlock(block, page, fromTime, toTime, prefix);
+    blockTables.push(...result.tables);
+    manifest.push(...result.manifest);
+  }
+  writeManifest(resultsDir, report.id, fromTime, toTime, startedAt, manifest);
+  // Failed, partial and suspiciously empty queries come first, so that a missing number is not read as zero
+  const results = [...buildDataProblemsTables(manifest), ...blockTables];
+
+  // Upload results folder to S3 with custom prefix; an API-only run has no screenshots, unless the images are charts
+  let s3Path = '';
+  if (page || config.reportImages === 'chart') {
+    try {
+      console.log(`\nUploading results folder to S3...`);
+      const s3Prefix = config.s3Prefix || '';
+      await uploadFolderToS3(resultsDir, `${s3Prefix}/${report.id}`);
+      console.log('Upload to S3 completed successfully');
+    } catch (error) {
+      console.error('Failed to upload to S3:', error);
+      // Don't fail the report if S3 upload fails, just log the error
+      // Screenshot values will remain as filenames
+    }
+  }
+
+  // Write results to JSON file (after S3 upload to include URLs)
+  const jsonPath = path.join(resultsDir, 'results.json');
+  fs.writeFileSync(jsonPath, JSON.stringify(results, null, 2));
+  console.log(`\nResults written to: ${jsonPath}`);
+
+  // Send results to MS Teams
+  if (config.msTeamWebhookUrl) {
+    try {
+      console.log(`\nSending results to MS Teams...`);
+
+      // Build URLs array (S3 path if available)
+      const urls: string[] = [];
+      if (s3Path) {
+        urls.push(s3Path);
+      }
+
+      const title = `Report status - ${report.title} - ${fromTime} to ${toTime}`;
+
+      // Headers will be automatically extracted from field names
+      await buildAndSendAdaptiveCard(title, results, urls);
+      console.log('Message sent to MS Teams successfully');
+    } catch (error) {
+      console.error('Failed to send message to MS Teams:', error);
+      // Don't fail the report if MS Teams send fails, just log the error
+    }
+  } else {
+    console.log('MS_TEAM_WEBHOOK_URL not configured, skipping MS Teams notification');
+  }
+  return results;
+}
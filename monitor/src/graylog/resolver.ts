@@ -0,0 +1,135 @@
+/**
+ * A stream or saved view as listed by the Graylog REST API
+ */
+export type GraylogEntity = { id: string; title: string };
+
+/**
+ * Source of the streams and saved views known to Graylog
+ */
+export interface GraylogEntitySource {
+  listStreams(): Promise<GraylogEntity[]>;
+  listViews(): Promise<GraylogEntity[]>;
+}
+
+type EntityKind = 'stream' | 'view';
+
+/** Graylog ids are 24 character hex object ids */
+const OBJECT_ID_PATTERN = /^[0-9a-f]{24}$/i;
+
+/**
+ * Resolves stream and saved view references, given either as ID or as title, to IDs
+ * The lists are fetched once and cached for the lifetime of the process
+ */
+export class GraylogResolver {
+  private cache: Partial<Record<EntityKind, Promise<GraylogEntity[]>>> = {};
+
+  constructor(private source: GraylogEntitySource) {}
+
+  /**
+   * Resolve a stream reference to its ID
+   * @param ref Stream ID or title
+   * @returns Stream ID
+   */
+  async resolveStream(ref: string): Promise<string> {
+    return this.resolve('stream', ref);
+  }
+
+  /**
+   * Resolve stream references to their IDs
+   * @param refs Stream IDs or titles
+   * @returns Stream IDs in the same order
+   */
+  async resolveStreams(refs: string[]): Promise<string[]> {
+    return Promise.all(refs.map(ref => this.resolve('stream', ref)));
+  }
+
+  /**
+   * Resolve a saved view reference to its ID
+   * @param ref View ID or title
+   * @returns View ID
+   */
+  async resolveView(ref: string): Promise<string> {
+    return this.resolve('view', ref);
+  }
+
+  /**
+   * Check that all stream and view references exist
+   * @param refs Stream and view references (IDs or titles)
+   * @throws Error listing every reference that could not be resolved
+   */
+  async validate(refs: { streams?: string[]; views?: string[] }): Promise<void> {
+    const problems: string[] = [];
+    const check = async (kind: EntityKind, ref: string) => {
+      try {
+        await this.resolve(kind, ref);
+      } catch (error: any) {
+        problems.push(error.message);
+      }
+    };
+    await Promise.all([
+      ...Array.from(new Set(refs.streams || [])).map(ref => check('stream', ref)),
+      ...Array.from(new Set(refs.views || [])).map(ref => check('view', ref)),
+    ]);
+    if (problems.length > 0) {
+      throw new Error(`Invalid Graylog references:\n- ${problems.join('\n- ')}`);
+    }
+  }
+
+  /**
+   * Resolve a reference against the cached list of entities
+   * An exact ID match wins over a title match; titles must be unique
+   * @param kind Entity kind
+   * @param ref ID or title
+   * @returns Entity ID
+   */
+  private async resolve(kind: EntityKind, ref: string): Promise<string> {
+    const value = (ref || '').trim();
+    if (!value) {
+      throw new Error(`Empty Graylog ${kind} reference, check the configured ${kind} IDs and titles`);
+    }
+
+    const entities = await this.list(kind);
+    const byId = entities.find(entity => entity.id === value);
+    if (byId) return byId.id;
+
+    const byTitle = entities.filter(entity => entity.title === value);
+    if (byTitle.length === 1) return byTitle[0].id;
+    if (byTitle.length > 1) {
+      throw new Error(`Graylog ${kind} title "${value}" is ambiguous (IDs: ${byTitle.map(entity => entity.id).join(', ')}), use the ID instead`);
+    }
+
+    const hint = OBJECT_ID_PATTERN.test(value) ? 'no such ID' : 'no such title or ID';
+    throw new Error(`Unknown Graylog ${kind} "${value}" (${hint})`);
+  }
+
+  /**
+   * Get the cached list of entities, fetching it on first use
+   * @param kind Entity kind
+   * @returns Entities of this kind
+   */
+  private list(kind: EntityKind): Promise<GraylogEntity[]> {
+    if (!this.cache[kind]) {
+      const promise = kind === 'stream' ? this.source.listStreams() : this.source.listViews();
+      // Do not cache failures, the next lookup fetches again
+      this.cache[kind] = promise.catch(error => {
+        delete this.cache[kind];
+        throw error;
+      });
+    }
+    return this.cache[kind]!;
+  }
+}
+
+let sharedResolver: GraylogResolver | null = null;
+
+/**
+ * Get the resolver shared by all API clients, so the lists are fetched once per run
+ * @param source Source used when the shared resolver is created
+ * @returns Shared Graylog resolver
+ */
+export function getGraylogResolver(source: GraylogEntitySource): GraylogResolver {
+  if (!sharedResolver) {
+    sharedResolver = new GraylogResolver(source);
+  }
+  return sharedResolver;
+}
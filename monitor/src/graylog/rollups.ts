@@ -0,0 +1,271 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../config';
+import { buildAndSendAdaptiveCard } from '../utils/sendToMsTeams';
+import { formatLocalTime } from '../utils/utils';
+import { DailyStatsEntry, readDailyStats } from './blocks/daily-stats';
+
+/**
+ * A series of the rollup report, read from the daily stats entries
+ */
+export type RollupSeries = {
+  id: string;
+  /** Name used in the Teams card */
+  title: string;
+  /** Dotted paths summed into the total of a day, e.g. ['order.success', 'order.failed'] */
+  total: string[];
+  /** Dotted paths summed into the failures of a day; no failure columns when missing */
+  failed?: string[];
+};
+
+/**
+ * Rollup granularity: ISO weeks (Monday to Sunday) or calendar months
+ */
+export type RollupPeriod = 'week' | 'month';
+
+/**
+ * Numbers of one series over one week or month
+ */
+export type RollupRow = {
+  /** Period key, e.g. '2025-W48' or '2025-11' */
+  period: string;
+  /** Days of the period with the series in daily-stats.json, without the days with missing data */
+  days: number;
+  /** Days left out of the numbers because a query of the series failed and its stat is null */
+  missingDataDays: number;
+  /** Null when every day of the period has missing data */
+  total: number | null;
+  /** Total per day with data, null when every day of the period has missing data */
+  average: number | null;
+  /** Change of the average per day against the previous period, null for the first period, after a period without data or at 0 */
+  delta: number | null;
+  /** Null when the series has no failures or every day of the period has missing data */
+  failed: number | null;
+  /** Failed over total, null when there are no failures or the total is 0 or missing */
+  failureRate: number | null;
+  /** Day with the highest total, null when every day of the period has missing data */
+  bestDay: { date: string; total: number } | null;
+  /** Day with the lowest total, null when every day of the period has missing data */
+  worstDay: { date: string; total: number } | null;
+};
+
+/**
+ * Series of the rollup report, one per report section of daily-stats.json
+ */
+export const ROLLUP_SERIES: RollupSeries[] = [
+  { id: 'order', title: 'Orders', total: ['order.success', 'order.failed'], failed: ['order.failed'] },
+  { id: 'payment-mobile', title: 'Mobile payments', total: ['payment.mobile.success', 'payment.mobile.failed'], failed: ['payment.mobile.failed'] },
+  { id: 'payment-desktop', title: 'Desktop payments', total: ['payment.desktop.success', 'payment.desktop.failed'], failed: ['payment.desktop.failed'] },
+  { id: 'eapi', title: 'EAPI calls', total: ['eapi.total'], failed: ['eapi.errors4xx', 'eapi.errors5xx', 'eapi.errorsOther'] },
+  { id: 'open-check', title: 'Open check loads', total: ['openCheck.count'] },
+];
+
+/**
+ * Read a number from a stats entry by dotted path
+ * @param entry Stats entry of one day
+ * @param statPath Dotted path, e.g. 'payment.mobile.success'
+ * @returns Number, undefined when the stat is not in the entry, null when it is null (its query failed) or not a number
+ */
+function readStat(entry: DailyStatsEntry, statPath: string): number | null | undefined {
+  const value = statPath.split('.').reduce<any>((current, key) => current?.[key], entry);
+  if (value === undefined) return undefined;
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Sum stats of a day
+ * @param entry Stats entry of one day
+ * @param statPaths Dotted paths
+ * @returns Sum of the stats in the entry, undefined when none of them is, null when one of them is missing data
+ */
+function sumStats(entry: DailyStatsEntry, statPaths: string[]): number | null | undefined {
+  const values = statPaths.map(statPath => readStat(entry, statPath)).filter(value => value !== undefined);
+  if (values.length === 0) return undefined;
+  // A failed query makes the sum unknown, a partial sum would read as fewer calls or failures
+  if (values.includes(null)) return null;
+  return (values as number[]).reduce((sum, value) => sum + value, 0);
+}
+
+/**
+ * ISO week of a date, weeks starting on Monday; the week belongs to the year of its Thursday
+ * @param date 'YYYY-MM-DD'
+ * @returns Week key, e.g. '2025-W48'
+ */
+export function isoWeek(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  // Thursday of the same week decides the year
+  const thursday = new Date(day.getTime() + (3 - ((day.getUTCDay() + 6) % 7)) * 86400000);
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.floor((thursday.getTime() - yearStart) / 86400000 / 7) + 1;
+  return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * Period key of a date
+ * @param date 'YYYY-MM-DD'
+ * @param period Week or month
+ * @returns '2025-W48' or '2025-11'
+ */
+function periodKey(date: string, period: RollupPeriod): string {
+  return period === 'week' ? isoWeek(date) : date.slice(0, 7);
+}
+
+/**
+ * Period key of the period just before the one of a date
+ * @param date 'YYYY-MM-DD'
+ * @param period Week or month
+ * @returns Key of the previous ISO week or month, e.g. '2025-W47' or '2025-10'
+ */
+function previousPeriodKey(date: string, period: RollupPeriod): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  if (period === 'week') {
+    return isoWeek(new Date(day.getTime() - 7 * 86400000).toISOString().slice(0, 10));
+  }
+  return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() - 1, 1)).toISOString().slice(0, 7);
+}
+
+/**
+ * Aggregate a series of the daily stats per week or month
+ * @param dailyStats Daily stats entries sorted by date
+ * @param series Series to aggregate
+ * @param period Week or month
+ * @returns One row per period with data, oldest first
+ */
+export function rollupSeries(dailyStats: DailyStatsEntry[], series: RollupSeries, period: RollupPeriod): RollupRow[] {
+  type Period = { firstDate: string; days: Array<{ date: string; total: number; failed: number | null }>; missingDataDays: number };
+  const byPeriod = new Map<string, Period>();
+  for (const entry of dailyStats) {
+    const total = sumStats(entry, series.total);
+    if (total === undefined) continue;
+    const key = periodKey(entry.date, period);
+    const periodDays = byPeriod.get(key) ?? { firstDate: entry.date, days: [], missingDataDays: 0 };
+    byPeriod.set(key, periodDays);
+    const failed = series.failed ? sumStats(entry, series.failed) : null;
+    // Days with a failed query are left out of the numbers rather than counted with 0 calls or failures
+    if (total === null || (series.failed && (failed === null || failed === undefined))) {
+      periodDays.missingDataDays++;
+      continue;
+    }
+    periodDays.days.push({ date: entry.date, total, failed: failed ?? null });
+  }
+
+  const rows: RollupRow[] = [];
+  for (const [key, { firstDate, days, missingDataDays }] of Array.from(byPeriod.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+    const hasData = days.length > 0;
+    const total = hasData ? days.reduce((sum, day) => sum + day.total, 0) : null;
+    const failed = series.failed && hasData ? days.reduce((sum, day) => sum + (day.failed ?? 0), 0) : null;
+    const average = total !== null ? total / days.length : null;
+    // Only against the period just before, a period without data in between leaves no comparison
+    const previous = rows.find(row => row.period === previousPeriodKey(firstDate, period));
+    // Averages per day, so that a partial week or month compares with a full one
+    const delta = average !== null && previous?.average ? (average - previous.average) / previous.average : null;
+    const byTotal = [...days].sort((a, b) => b.total - a.total || a.date.localeCompare(b.date));
+    rows.push({
+      period: key,
+      days: days.length,
+      missingDataDays,
+      total,
+      average,
+      delta,
+      failed,
+      failureRate: failed !== null && total ? failed / total : null,
+      bestDay: hasData ? { date: byTotal[0].date, total: byTotal[0].total } : null,
+      worstDay: hasData ? { date: byTotal[byTotal.length - 1].date, total: byTotal[byTotal.length - 1].total } : null,
+    });
+  }
+  return rows;
+}
+
+/**
+ * Format a ratio as a percentage
+ * @param value Ratio, e.g. 0.125
+ * @param signed Add a + to positive values, e.g. for deltas
+ * @returns Formatted value, e.g. '12.5%', or null when there is no value
+ */
+function formatPercent(value: number | null, signed: boolean = false): string | null {
+  if (value === null) return null;
+  return `${signed && value > 0 ? '+' : ''}${(value * 100).toFixed(signed ? 1 : 2)}%`;
+}
+
+/**
+ * Build the table of a series for results.json and the Teams card
+ * @param series Rolled up series
+ * @param rows Rows of the series, oldest first
+ * @returns Table rows in {type, value} format
+ */
+function buildRollupTable(series: RollupSeries, rows: RollupRow[]): any[] {
+  return rows.map(row => ({
+    [series.title]: { type: 'text', value: row.period },
+    days: { type: 'text', value: row.days },
+    daysMissingData: { type: 'text', value: row.missingDataDays },
+    total: { type: 'text', value: row.total },
+    avgPerDay: { type: 'text', value: row.average !== null ? Math.round(row.average) : null },
+    vsPrevious: { type: 'text', value: formatPercent(row.delta, true) },
+    ...(series.failed ? {
+      failed: { type: 'text', value: row.failed },
+      failureRate: { type: 'text', value: formatPercent(row.failureRate) },
+    } : {}),
+    bestDay: { type: 'text', value: row.bestDay ? `${row.bestDay.date} (${row.bestDay.total})` : null },
+    worstDay: { type: 'text', value: row.worstDay ? `${row.worstDay.date} (${row.worstDay.total})` : null },
+  }));
+}
+
+/**
+ * Build the rollup tables of the daily stats up to a date
+ * @param dailyStats Daily stats entries sorted by date
+ * @param endDate Last day, 'YYYY-MM-DD'
+ * @param weeks Number of ISO weeks shown, the last one ending after endDate is partial
+ * @param months Number of months shown
+ * @returns Tables in {type, value} format: the weekly tables, then the monthly tables, each group after a separator row
+ */
+export function buildRollupTables(dailyStats: DailyStatsEntry[], endDate: string, weeks: number, months: number): any[][] {
+  const entries = dailyStats.filter(entry => entry.date <= endDate);
+  const tables: any[][] = [];
+  for (const [period, count, separator] of [['week', weeks, 'Weekly rollup'], ['month', months, 'Monthly rollup']] as Array<[RollupPeriod, number, string]>) {
+    if (count <= 0) continue;
+    tables.push([{ [separator]: { type: 'separator' } }]);
+    for (const series of ROLLUP_SERIES) {
+      // The delta of the first row shown uses the period before it
+      const rows = rollupSeries(entries, series, period).slice(-count);
+      if (rows.length > 0) tables.push(buildRollupTable(series, rows));
+    }
+  }
+  return tables;
+}
+
+/**
+ * Run the rollup report: aggregate daily-stats.json per ISO week and per month, write results.json and send the Teams card
+ * The end date is ROLLUP_END_DATE, by default yesterday in UTC-8 like the report dates, so that a Monday run covers the full previous week
+ * @returns Rollup tables as written to results.json
+ */
+export async function runRollupReport(): Promise<any[][]> {
+  const endDate = config.rollupEndDate || formatLocalTime(new Date(Date.now() - 86400000).toISOString(), -8).slice(0, 10);
+  const dailyStats = readDailyStats();
+  if (dailyStats.length === 0) {
+    throw new Error('daily-stats.json has no entries, run the daily reports first');
+  }
+  console.log(`\nRolling up ${dailyStats.length} days of daily-stats.json up to ${endDate}: ${config.rollupWeeks} weeks, ${config.rollupMonths} months`);
+  const tables = buildRollupTables(dailyStats, endDate, config.rollupWeeks, config.rollupMonths);
+
+  const resultsDir = path.resolve(process.cwd(), 'src', 'graylog', 'result', 'rollup', endDate);
+  if (!fs.existsSync(resultsDir)) {
+    fs.mkdirSync(resultsDir, { recursive: true });
+  }
+  const jsonPath = path.join(resultsDir, 'results.json');
+  fs.writeFileSync(jsonPath, JSON.stringify(tables, null, 2));
+  console.log(`Results written to: ${jsonPath}`);
+
+  if (config.msTeamWebhookUrl) {
+    try {
+      console.log(`\nSending rollup to MS Teams...`);
+      await buildAndSendAdaptiveCard(`Rollup report - ${isoWeek(endDate)} (up to ${endDate})`, tables);
+      console.log('Message sent to MS Teams successfully');
+    } catch (error) {
+      console.error('Failed to send message to MS Teams:', error);
+      // Don't fail the report if MS Teams send fails, just log the error
+    }
+  } else {
+    console.log('MS_TEAM_WEBHOOK_URL not configured, skipping MS Teams notification');
+  }
+  return tables;
+}
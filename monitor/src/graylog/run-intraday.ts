@@ -0,0 +1,13 @@
+import { INTRADAY_CHECKS, getIntradayCheck, runIntraday } from './intraday';
+
+// Run the intraday checks over the last minutes: npm run intraday [-- <check id> ...]
+// Meant for a short cadence, e.g. every 15 minutes from cron; MS Teams only gets a message when a threshold is crossed
+if (require.main === module) {
+  (async () => {
+    const checks = process.argv.length > 2 ? process.argv.slice(2).map(getIntradayCheck) : INTRADAY_CHECKS;
+    await runIntraday(checks);
+  })().catch(error => {
+    console.error('Intraday checks failed:', error.message ?? error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,16 @@
+import { REPORTS, getReport, runReport } from './reports';
+
+// Run as a command without browser: npm run report [-- <report id> ...]
+// Counts, grouped tables, stats and the Teams card come from the Graylog API only, screenshots are skipped (REPORT_IMAGES=chart draws charts instead)
+if (require.main === module) {
+  (async () => {
+    const reports = process.argv.length > 2 ? process.argv.slice(2).map(getReport) : REPORTS;
+    for (const report of reports) {
+      console.log(`\n=== ${report.title} report ===`);
+      await runReport(report, null);
+    }
+  })().catch(error => {
+    console.error('Report failed:', error.message ?? error);
+    process.exit(1);
+  });
+}
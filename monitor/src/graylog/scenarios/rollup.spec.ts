@@ -0,0 +1,9 @@
+import { test } from '@playwright/test';
+import { runRollupReport } from '../rollups';
+
+test.describe('Rollup report', () => {
+  test('should roll up daily stats per week and month, send results', async () => {
+    // Reads src/data/daily-stats.json only: no Graylog search and no browser page
+    await runRollupReport();
+  });
+});
@@ -0,0 +1,353 @@
+/**
+ * Shared types for the Graylog API client
+ */
+
+/**
+ * Bucket size of a time histogram, e.g. '5m', '15m' or '1h'
+ */
+export type HistogramInterval = `${number}m` | `${number}h`;
+
+/**
+ * A single grouping level of a pivot query
+ */
+export interface PivotGroup<F extends string = string> {
+  /** Field name to group by */
+  field: F;
+  /** Maximum number of buckets returned for this level (default: GRAYLOG_PIVOT_LIMIT, 10000) */
+  limit?: number;
+  /** Optional sort of this level by its bucket value */
+  sort?: 'asc' | 'desc';
+  /** When set, the field is a timestamp bucketed by this interval instead of grouped by value */
+  interval?: HistogramInterval;
+}
+
+/**
+ * Aggregation functions supported as pivot series
+ */
+export type PivotSeriesType = 'count' | 'avg' | 'sum' | 'min' | 'max' | 'card' | 'percentile';
+
+/**
+ * A single aggregation (series) computed for every pivot bucket
+ */
+export interface PivotSeries {
+  /** Aggregation function */
+  type: PivotSeriesType;
+  /** Field to aggregate; optional for count */
+  field?: string;
+  /** Percentile rank (e.g. 95), only used by the percentile type */
+  percentile?: number;
+}
+
+/**
+ * Options describing a pivot (group by) query
+ */
+export interface PivotQueryOptions<F extends string = string> {
+  /** Row groups, outermost first. A plain string is a field grouped with the default limit */
+  rowGroups: Array<F | PivotGroup<F>>;
+  /** Optional column groups, outermost first */
+  columnGroups?: Array<string | PivotGroup>;
+  /**
+   * Extra series computed alongside count(), as objects or ids such as
+   * 'avg(eapi_duration)', 'percentile(eapi_duration,95)' or 'card(eapi_customer_id)'
+   */
+  series?: Array<string | PivotSeries>;
+  /** Optional sort of the rows by their count */
+  sortByCount?: 'asc' | 'desc';
+  /** Name assigned to the pivot search type (default: 'pivot') */
+  name?: string;
+  /** Append an "(other)" row counting the messages outside the returned buckets */
+  otherRow?: boolean;
+}
+
+/**
+ * A single leaf row returned by a pivot query
+ */
+export interface PivotRow<F extends string = string> {
+  /** Row group values keyed by field name */
+  fields: Record<F, string>;
+  /** Row total of the count() series */
+  count: number;
+  /** Row level series values keyed by series id (e.g. 'count()', 'avg(eapi_duration)') */
+  values: Record<string, number | null>;
+  /** Series values per column bucket, keyed by the column values joined with ' / ' */
+  columns: Record<string, Record<string, number | null>>;
+}
+
+/**
+ * Coverage of the leaf rows of a pivot compared to its rollup total
+ * Buckets beyond the limit of a level are dropped by Graylog, so the leaf rows may not cover every message
+ */
+export interface PivotOverflow {
+  /** Number of matching messages, from the rollup total row */
+  total: number;
+  /** Sum of the counts of the leaf rows */
+  leafTotal: number;
+  /** Messages not covered by any leaf row (total - leafTotal), reported as the "(other)" row */
+  other: number;
+  /** Row group fields that returned as many buckets as their limit below at least one parent bucket */
+  limitedFields: string[];
+}
+
+/**
+ * A single time bucket returned by a time histogram query
+ */
+export interface HistogramBucket {
+  /** Bucket start as ISO string (UTC) */
+  timestamp: string;
+  /** Number of messages in the bucket */
+  count: number;
+  /** Counts per value of the optional group by field */
+  groups: Record<string, number>;
+}
+
+/**
+ * Per request options of the Graylog API client
+ */
+export interface GraylogRequestOptions {
+  /** Name of the report query, used in errors and logs */
+  queryName?: string;
+  /** Aborts pending requests and cancels a running search job */
+  signal?: AbortSignal;
+  /**
+   * Split the time range into windows of this size, run them concurrently and merge the results
+   * Default: GRAYLOG_SPLIT_WINDOW; null runs a single search
+   */
+  splitWindow?: HistogramInterval | null;
+}
+
+/**
+ * A window of a time range split into several searches
+ */
+export interface TimeWindow {
+  /** Window start (ISO string) */
+  from: string;
+  /** Window end (ISO string), 1ms before the next window starts */
+  to: string;
+}
+
+/**
+ * A window whose search failed; its messages are missing from the merged result
+ */
+export interface FailedWindow extends TimeWindow {
+  /** Error message of the failed search */
+  error: string;
+}
+
+/**
+ * A named query submitted as part of a batch search
+ */
+export interface BatchQuery {
+  /** Unique name used to map the result back */
+  name: string;
+  /** The search query string */
+  query: string;
+  /** Pivot options; when omitted only the total count is computed */
+  pivot?: PivotQueryOptions;
+  /** Optional array of stream IDs or titles to filter by */
+  streamIds?: string[];
+}
+
+/**
+ * Result of a single query of a batch search
+ */
+export interface BatchQueryResult {
+  /** Total number of matching messages */
+  count: number;
+  /** Pivot rows, empty for count only queries */
+  rows: PivotRow[];
+  /** Coverage of the pivot rows, null for count only queries */
+  overflow: PivotOverflow | null;
+}
+
+/**
+ * Options of a message list query
+ */
+export interface MessageQueryOptions<F extends string = string> {
+  /** Fields kept in each returned message; all fields when omitted */
+  fields?: F[];
+  /** Maximum number of messages per page (default: 100) */
+  limit?: number;
+  /** Number of messages to skip, used to page through the results (default: 0) */
+  offset?: number;
+  /** Sort of the messages (default: timestamp, newest first) */
+  sort?: { field: string; order: 'asc' | 'desc' };
+  /** Name assigned to the messages search type (default: 'messages') */
+  name?: string;
+}
+
+/**
+ * A single page of a message list query
+ */
+export interface MessagePage<F extends string = string> {
+  /** Messages of this page, reduced to the requested fields */
+  messages: Array<Record<F, any>>;
+  /** Total number of matching messages */
+  total: number;
+  /** Offset of this page */
+  offset: number;
+  /** Offset of the next page, or null when this is the last page */
+  nextOffset: number | null;
+}
+
+/**
+ * A message field known to Graylog
+ */
+export interface FieldType {
+  /** Field name */
+  name: string;
+  /** Field type, e.g. 'string', 'long', 'date' */
+  type: string;
+}
+
+/**
+ * Selects a search type in a search result: by the name assigned when building the search,
+ * or by the query and search type ids of the search body
+ */
+export type SearchTypeSelector = string | { queryId: string; searchTypeId: string };
+
+/**
+ * Search type as sent to Graylog in a search body
+ */
+export interface SearchTypeSpec {
+  /** Search type id; assigned by Graylog when omitted */
+  id?: string;
+  /** Name used to find the result of this search type */
+  name: string;
+  /** Search type, e.g. 'pivot' or 'messages' */
+  type: string;
+  [key: string]: any;
+}
+
+/**
+ * Single query of a search body
+ */
+export interface SearchQueryEntry {
+  /** Query id; assigned by Graylog when omitted */
+  id?: string;
+  query: { type: 'elasticsearch'; query_string: string };
+  timerange: { type: 'absolute'; from: string; to: string };
+  filter: { type: 'or'; filters: Array<{ type: 'stream'; id: string }> } | null;
+  filters: any[];
+  search_types: SearchTypeSpec[];
+}
+
+/**
+ * Body posted to /views/search
+ */
+export interface SearchBody {
+  queries: SearchQueryEntry[];
+  parameters: any[];
+}
+
+/**
+ * Response of /views/search
+ */
+export interface SearchCreated {
+  /** Search id, used to execute the search */
+  id: string;
+}
+
+/**
+ * Execution state of a search job
+ */
+export interface SearchExecution {
+  done: boolean;
+  cancelled?: boolean;
+  completed_exceptionally?: boolean;
+}
+
+/**
+ * Error reported by Graylog for a search job or a query
+ */
+export interface SearchError {
+  description?: string;
+  query_id?: string;
+  search_type_id?: string;
+  type?: string;
+}
+
+/**
+ * A single value of a pivot row
+ */
+export interface PivotValue {
+  /** Column values followed by the series id, e.g. ['(Empty Value)', 'count()'] or ['count()'] */
+  key: string[];
+  /** Series value, null when the series has no value for this bucket */
+  value: number | null;
+  /** Whether the value is a rollup over the columns of the row */
+  rollup: boolean;
+  source: string;
+}
+
+/**
+ * A single row of a pivot result
+ */
+export interface PivotResultRow {
+  /** One value per row group, empty for the total row */
+  key: string[];
+  values: PivotValue[];
+  /** 'leaf' for rows with all row groups, 'non-leaf' for totals and intermediate rollups */
+  source: string;
+}
+
+/**
+ * Result of a pivot search type
+ */
+export interface PivotSearchTypeResult {
+  id: string;
+  name?: string;
+  type: 'pivot';
+  rows: PivotResultRow[];
+  /** Number of messages matching the query */
+  total: number;
+}
+
+/**
+ * A single message of a messages search type result
+ */
+export interface MessageEntry {
+  message: Record<string, any>;
+  index?: string;
+  highlight_ranges?: Record<string, any>;
+}
+
+/**
+ * Result of a messages search type
+ */
+export interface MessagesSearchTypeResult {
+  id: string;
+  name?: string;
+  type: 'messages';
+  messages: MessageEntry[];
+  total_results: number;
+}
+
+/**
+ * Result of any search type
+ */
+export type SearchTypeResult = PivotSearchTypeResult | MessagesSearchTypeResult | { id: string; name?: string; type: string; [key: string]: any };
+
+/**
+ * Result of a single query of a search job
+ */
+export interface QueryResult {
+  /** The query as executed, including its search types */
+  query?: SearchQueryEntry;
+  search_types: Record<string, SearchTypeResult>;
+  errors?: SearchError[];
+  state?: string;
+}
+
+/**
+ * Search job as returned by the execute and status endpoints
+ */
+export interface SearchJob {
+  id?: string;
+  search_id?: string;
+  /** Node running the job; absent for results served without a job (e.g. replayed) */
+  executing_node?: string;
+  execution: SearchExecution;
+  /** Query results keyed by query id; empty until the job is done */
+  results: Record<string, QueryResult>;
+  errors?: SearchError[];
+}
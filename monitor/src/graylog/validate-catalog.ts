@@ -0,0 +1,174 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GraylogApiService } from './api.service';
+import { listKnownFields } from './fields';
+import { formatLintIssues, lintQuery } from './lucene';
+import { CATALOG_PATH, CatalogQuery, MetricDefinition, QueryCatalog, envReference, readQueryCatalog, resolveQuery } from './catalog';
+import { BLOCKS_PATH, readBlockDefinitions } from './blocks/definitions';
+
+/** Source files searched for query ids */
+const SOURCE_DIR = path.resolve(process.cwd(), 'src');
+
+/** Catalog modules, their examples do not count as usage */
+const CATALOG_MODULES = [path.join(__dirname, 'catalog.ts'), path.join(__dirname, 'blocks', 'definitions.ts'), __filename];
+
+/**
+ * List the TypeScript files below a directory
+ * @param dir Directory to search
+ * @returns Absolute file paths
+ */
+function listSourceFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listSourceFiles(entryPath);
+    return entry.name.endsWith('.ts') ? [entryPath] : [];
+  });
+}
+
+/**
+ * Read the source files, without the catalog modules, and the block definitions
+ * @returns Concatenated sources
+ */
+function readSources(): string {
+  return listSourceFiles(SOURCE_DIR)
+    .filter(file => !CATALOG_MODULES.includes(file))
+    .concat(fs.existsSync(BLOCKS_PATH) ? [BLOCKS_PATH] : [])
+    .map(file => fs.readFileSync(file, 'utf-8')).join('\n');
+}
+
+/**
+ * Check whether a string literal appears in the sources
+ */
+function isReferenced(sources: string, value: string): boolean {
+  return sources.includes(`'${value}'`) || sources.includes(`"${value}"`);
+}
+
+/**
+ * Find catalog queries whose id is not referenced by any source file
+ * @param queries Catalog queries
+ * @returns Ids of unused queries
+ */
+export function findUnusedQueries(queries: CatalogQuery[]): string[] {
+  const sources = readSources();
+  return queries
+    .map(query => query.id)
+    .filter(id => !isReferenced(sources, id));
+}
+
+/**
+ * Find derived metrics that no block computes, i.e. none of their tags is referenced by a source file
+ * @param metrics Metric definitions
+ * @returns Ids of unused metrics
+ */
+export function findUnusedMetrics(metrics: MetricDefinition[]): string[] {
+  const sources = readSources();
+  return metrics
+    .filter(metric => !metric.tags.some(tag => isReferenced(sources, tag)))
+    .map(metric => metric.id);
+}
+
+/**
+ * Find environment variables referenced as stream or view that are not set
+ * @param queries Catalog queries with unresolved stream and view values
+ * @returns Problem messages, one per unset variable
+ */
+export function findUnsetReferences(queries: CatalogQuery[]): string[] {
+  const unset = new Map<string, string[]>();
+  queries.forEach(query => {
+    [...query.streams, query.view].forEach(value => {
+      const envName = envReference(value);
+      if (envName !== null && !(process.env[envName] || '').trim()) {
+        unset.set(envName, [...(unset.get(envName) || []), query.id]);
+      }
+    });
+  });
+  return Array.from(unset.entries())
+    .map(([envName, ids]) => `${envName} is not set (used by ${Array.from(new Set(ids)).join(', ')})`);
+}
+
+/**
+ * Lint the query strings of the catalog
+ * @param queries Catalog queries
+ * @param knownFieldsById Optional fields of the streams of each query, to flag unknown fields
+ * @returns Problem messages, one per issue
+ */
+export function lintCatalogQueries(queries: CatalogQuery[], knownFieldsById?: Map<string, Set<string>>): string[] {
+  return queries.flatMap(query => {
+    const issues = lintQuery(query.query, { knownFields: knownFieldsById?.get(query.id) });
+    return formatLintIssues(issues).map(issue => `query "${query.id}": ${issue}`);
+  });
+}
+
+/**
+ * Validate the query catalog: schema, duplicate ids, fragments, metric expressions, block definitions, query syntax, unused entries and, unless offline,
+ * that every stream, view and queried field exists in Graylog
+ * @param options offline skips the Graylog lookups
+ * @returns Problem messages, empty when the catalog is valid
+ */
+export async function validateCatalog(options: { offline?: boolean } = {}): Promise<string[]> {
+  let catalog: QueryCatalog;
+  try {
+    catalog = readQueryCatalog();
+  } catch (error: any) {
+    return [error.message];
+  }
+  const queries = catalog.queries;
+
+  const problems: string[] = [];
+  try {
+    readBlockDefinitions();
+  } catch (error: any) {
+    problems.push(error.message);
+  }
+  problems.push(...findUnsetReferences(queries));
+  problems.push(...findUnusedQueries(queries).map(id => `query "${id}" is not used by any block`));
+  problems.push(...findUnusedMetrics(catalog.metrics).map(id => `metric "${id}" is not computed by any block`));
+  problems.push(...catalog.unusedFragments.map(name => `fragment \${${name}} is not used by any query`));
+
+  if (options.offline) {
+    problems.push(...lintCatalogQueries(queries));
+    return problems;
+  }
+
+  const graylogApi = new GraylogApiService();
+  const resolved = queries.map(resolveQuery);
+  try {
+    await graylogApi.validateReferences({
+      streams: resolved.flatMap(query => query.streams).filter(Boolean),
+      views: resolved.map(query => query.view).filter(Boolean),
+    });
+  } catch (error: any) {
+    // Fields cannot be listed for unknown streams, check the syntax only
+    problems.push(error.message);
+    problems.push(...lintCatalogQueries(queries));
+    return problems;
+  }
+
+  // Fields per stream combination, shared by the queries on the same streams
+  const fieldsByStreams = new Map<string, Set<string>>();
+  const knownFieldsById = new Map<string, Set<string>>();
+  for (const query of resolved) {
+    const key = [...query.streams].sort().join(',');
+    if (!fieldsByStreams.has(key)) {
+      fieldsByStreams.set(key, await listKnownFields(graylogApi, query.streams));
+    }
+    knownFieldsById.set(query.id, fieldsByStreams.get(key)!);
+  }
+  problems.push(...lintCatalogQueries(queries, knownFieldsById));
+  return problems;
+}
+
+// Run as a command: npm run validate:queries [-- --offline]
+if (require.main === module) {
+  const offline = process.argv.includes('--offline');
+  validateCatalog({ offline }).then(problems => {
+    if (problems.length > 0) {
+      console.error(`Query catalog ${CATALOG_PATH} has ${problems.length} problem(s):\n- ${problems.join('\n- ')}`);
+      process.exit(1);
+    }
+    console.log(`Query catalog ${CATALOG_PATH} is valid${offline ? ' (Graylog lookups skipped)' : ''}`);
+  }).catch(error => {
+    console.error('Failed to validate the query catalog:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,157 @@
+import { GraylogResponseError } from './errors';
+import {
+  MessagesSearchTypeResult,
+  PivotSearchTypeResult,
+  SearchCreated,
+  SearchJob,
+} from './types';
+
+/**
+ * Runtime checks of Graylog responses
+ * Graylog answers with plain JSON, so every response is checked before it is used as a typed model
+ */
+
+/**
+ * Describe the type of a JSON value for error messages
+ * @param value Any value
+ * @returns Short description, e.g. 'array', 'null' or 'string "abc"'
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string "${value.length > 40 ? `${value.slice(0, 40)}...` : value}"`;
+  return typeof value;
+}
+
+/**
+ * Check whether a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Throw when a value is not a plain object
+ * @param value Value to check
+ * @param path Path of the value within the response
+ */
+function expectObject(value: unknown, path: string): asserts value is Record<string, any> {
+  if (!isObject(value)) {
+    throw new GraylogResponseError(`expected an object, got ${describe(value)}`, path);
+  }
+}
+
+/**
+ * Throw when a value is not an array
+ * @param value Value to check
+ * @param path Path of the value within the response
+ */
+function expectArray(value: unknown, path: string): asserts value is any[] {
+  if (!Array.isArray(value)) {
+    throw new GraylogResponseError(`expected an array, got ${describe(value)}`, path);
+  }
+}
+
+/**
+ * Throw when a value is not a finite number
+ * @param value Value to check
+ * @param path Path of the value within the response
+ */
+function expectNumber(value: unknown, path: string): asserts value is number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new GraylogResponseError(`expected a number, got ${describe(value)}`, path);
+  }
+}
+
+/**
+ * Throw when a value is not a non-empty string
+ * @param value Value to check
+ * @param path Path of the value within the response
+ */
+function expectString(value: unknown, path: string): asserts value is string {
+  if (typeof value !== 'string' || value === '') {
+    throw new GraylogResponseError(`expected a non-empty string, got ${describe(value)}`, path);
+  }
+}
+
+/**
+ * Validate the response of POST /views/search
+ * @param value Parsed response body
+ * @returns Created search
+ */
+export function validateSearchCreated(value: unknown): SearchCreated {
+  expectObject(value, '');
+  expectString(value.id, 'id');
+  return value as SearchCreated;
+}
+
+/**
+ * Validate a search job returned by the execute or status endpoint
+ * Only the envelope is checked; search type results are checked when they are extracted
+ * @param value Parsed response body
+ * @returns Search job
+ */
+export function validateSearchJob(value: unknown): SearchJob {
+  expectObject(value, '');
+  expectObject(value.execution, 'execution');
+  if (typeof value.execution.done !== 'boolean') {
+    throw new GraylogResponseError(`expected a boolean, got ${describe(value.execution.done)}`, 'execution.done');
+  }
+  if (value.results !== undefined) {
+    expectObject(value.results, 'results');
+    for (const [queryId, queryResult] of Object.entries(value.results)) {
+      expectObject(queryResult, `results.${queryId}`);
+      expectObject(queryResult.search_types, `results.${queryId}.search_types`);
+    }
+  }
+  if (value.errors !== undefined) {
+    expectArray(value.errors, 'errors');
+  }
+  // A running job may come without results
+  return { ...value, results: value.results ?? {} } as SearchJob;
+}
+
+/**
+ * Validate the result of a pivot search type
+ * @param value Search type result
+ * @param path Path of the search type result within the search job
+ * @returns Pivot result
+ */
+export function validatePivotResult(value: unknown, path: string): PivotSearchTypeResult {
+  expectObject(value, path);
+  expectArray(value.rows, `${path}.rows`);
+  expectNumber(value.total, `${path}.total`);
+  value.rows.forEach((row: unknown, rowIndex: number) => {
+    const rowPath = `${path}.rows[${rowIndex}]`;
+    expectObject(row, rowPath);
+    expectArray(row.key, `${rowPath}.key`);
+    expectArray(row.values, `${rowPath}.values`);
+    expectString(row.source, `${rowPath}.source`);
+    row.values.forEach((item: unknown, valueIndex: number) => {
+      const valuePath = `${rowPath}.values[${valueIndex}]`;
+      expectObject(item, valuePath);
+      expectArray(item.key, `${valuePath}.key`);
+      if (item.value !== null) {
+        expectNumber(item.value, `${valuePath}.value`);
+      }
+    });
+  });
+  return value as PivotSearchTypeResult;
+}
+
+/**
+ * Validate the result of a messages search type
+ * @param value Search type result
+ * @param path Path of the search type result within the search job
+ * @returns Messages result
+ */
+export function validateMessagesResult(value: unknown, path: string): MessagesSearchTypeResult {
+  expectObject(value, path);
+  expectArray(value.messages, `${path}.messages`);
+  expectNumber(value.total_results, `${path}.total_results`);
+  value.messages.forEach((entry: unknown, index: number) => {
+    expectObject(entry, `${path}.messages[${index}]`);
+    expectObject(entry.message, `${path}.messages[${index}].message`);
+  });
+  return value as MessagesSearchTypeResult;
+}
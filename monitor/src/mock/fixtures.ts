@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HistogramInterval } from '../graylog/types';
+import { intervalToMs } from '../graylog/api.service';
+
+/**
+ * Streams, views and fields known to the mock Graylog
+ */
+export type MockCatalog = {
+  streams: Array<{ id: string; title: string }>;
+  views: Array<{ id: string; title: string; streams?: string[] }>;
+  fields: Array<{ name: string; type: string }>;
+};
+
+/**
+ * A recorded search type result and the search type it answers
+ */
+export type SearchFixture = {
+  /** What the fixture contains, for humans */
+  description?: string;
+  match: {
+    /** Search type: 'pivot' or 'messages' */
+    type: string;
+    /** Exact query string; any query when omitted */
+    query?: string;
+    /** Row group fields, outermost first; any row groups when omitted */
+    rowGroups?: string[];
+    /** Column group fields, outermost first; any column groups when omitted */
+    columnGroups?: string[];
+  };
+  /** Search type result as returned by Graylog */
+  result: any;
+};
+
+/** Default directory of the fixture files */
+export const FIXTURES_DIR = path.resolve(__dirname, 'fixtures');
+
+/**
+ * Load the catalog of streams, views and fields
+ * @param fixturesDir Directory of the fixture files
+ * @returns Mock catalog
+ */
+export function loadCatalog(fixturesDir: string = FIXTURES_DIR): MockCatalog {
+  return JSON.parse(fs.readFileSync(path.join(fixturesDir, 'catalog.json'), 'utf-8'));
+}
+
+/**
+ * Load all recorded search type results
+ * @param fixturesDir Directory of the fixture files
+ * @returns Search fixtures
+ */
+export function loadSearchFixtures(fixturesDir: string = FIXTURES_DIR): SearchFixture[] {
+  const searchDir = path.join(fixturesDir, 'search');
+  if (!fs.existsSync(searchDir)) return [];
+  return fs.readdirSync(searchDir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => JSON.parse(fs.readFileSync(path.join(searchDir, file), 'utf-8')));
+}
+
+/**
+ * Get the field names of pivot groups
+ * @param groups Row or column groups of a pivot search type
+ * @returns Field names, outermost first
+ */
+function groupFields(groups: any[] = []): string[] {
+  return groups.map(group => (group.fields || [])[0]);
+}
+
+/**
+ * Check whether two field lists are equal
+ */
+function sameFields(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((field, index) => field === b[index]);
+}
+
+/**
+ * Find the most specific fixture for a search type of a search request
+ * @param fixtures Search fixtures
+ * @param query Query string of the search request
+ * @param searchType Search type of the search request
+ * @returns Matching fixture or undefined
+ */
+export function findSearchFixture(fixtures: SearchFixture[], query: string, searchType: any): SearchFixture | undefined {
+  let best: { fixture: SearchFixture; score: number } | undefined;
+  for (const fixture of fixtures) {
+    const { match } = fixture;
+    if (match.type !== searchType.type) continue;
+    if (match.query !== undefined && match.query !== query) continue;
+    if (match.rowGroups && !sameFields(match.rowGroups, groupFields(searchType.row_groups))) continue;
+    if (match.columnGroups && !sameFields(match.columnGroups, groupFields(searchType.column_groups))) continue;
+
+    const score = [match.query, match.rowGroups, match.columnGroups].filter(item => item !== undefined).length;
+    if (!best || score > best.score) {
+      best = { fixture, score };
+    }
+  }
+  return best?.fixture;
+}
+
+/**
+ * Deterministic pseudo random count for synthesized buckets
+ * @param seed Any string
+ * @returns Count between 0 and 99
+ */
+function seededCount(seed: string): number {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    hash = (hash * 31 + seed.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash) % 100;
+}
+
+/**
+ * Synthesize a time histogram result covering the requested time range
+ * Recorded histograms only cover the day they were recorded, so time pivots are generated instead
+ * @param query Query string, used as seed of the counts
+ * @param searchType Pivot search type with a time row group
+ * @param from Start of the time range (ISO string)
+ * @param to End of the time range (ISO string)
+ * @returns Pivot search type result
+ */
+export function synthesizeTimePivot(query: string, searchType: any, from: string, to: string): any {
+  const timeGroup = searchType.row_groups[0];
+  const interval = `${timeGroup.interval?.value ?? 1}${timeGroup.interval?.unit === 'minutes' ? 'm' : 'h'}` as HistogramInterval;
+  const step = intervalToMs(interval);
+  const hasColumns = (searchType.column_groups || []).length > 0;
+
+  const rows: any[] = [];
+  let total = 0;
+  for (let time = Math.floor(new Date(from).getTime() / step) * step; time <= new Date(to).getTime(); time += step) {
+    const timestamp = new Date(time).toISOString();
+    const count = seededCount(`${query}|${timestamp}`);
+    total += count;
+    const values: any[] = [];
+    if (hasColumns) {
+      // Every message of a synthesized bucket has no value for the column field
+      values.push({ key: ['(Empty Value)', 'count()'], value: count, rollup: false, source: 'col-leaf' });
+    }
+    values.push({ key: ['count()'], value: count, rollup: true, source: 'row-leaf' });
+    rows.push({ key: [timestamp], values, source: 'leaf' });
+  }
+  rows.push({ key: [], values: [{ key: ['count()'], value: total, rollup: true, source: 'row-inner' }], source: 'non-leaf' });
+
+  return { type: 'pivot', rows, total };
+}
+
+/**
+ * Empty result of a search type, used when no fixture matches
+ * @param searchType Search type of the search request
+ * @returns Search type result without data
+ */
+export function emptyResult(searchType: any): any {
+  if (searchType.type === 'messages') {
+    return { type: 'messages', messages: [], total_results: 0 };
+  }
+  return { type: searchType.type, rows: [], total: 0 };
+}
+
+/**
+ * Apply the offset and limit of a messages search type to a recorded message list
+ * @param result Recorded messages result
+ * @param searchType Messages search type of the search request
+ * @returns Page of the recorded messages
+ */
+export function pageMessages(result: any, searchType: any): any {
+  const messages: any[] = result.messages || [];
+  const offset = searchType.offset ?? 0;
+  const limit = searchType.limit ?? messages.length;
+  return {
+    ...result,
+    messages: messages.slice(offset, offset + limit),
+    total_results: result.total_results ?? messages.length,
+  };
+}
@@ -0,0 +1,334 @@
+import * as http from 'http';
+import { randomUUID } from 'crypto';
+import {
+  FIXTURES_DIR,
+  MockCatalog,
+  SearchFixture,
+  emptyResult,
+  findSearchFixture,
+  loadCatalog,
+  loadSearchFixtures,
+  pageMessages,
+  synthesizeTimePivot,
+} from './fixtures';
+import { homePage, loginPage, notFoundPage, searchPage } from './pages';
+
+/** Node name reported for search jobs */
+const MOCK_NODE = 'mock-node';
+
+/** Name of the session cookie, same as Graylog */
+const SESSION_COOKIE = 'authentication';
+
+/**
+ * Options of the mock Graylog server
+ */
+export type MockGraylogServerOptions = {
+  /** Port to listen on (default: GRAYLOG_MOCK_PORT or 9900) */
+  port?: number;
+  /** Directory of the fixture files (default: src/mock/fixtures) */
+  fixturesDir?: string;
+};
+
+/**
+ * Local stand-in for Graylog, answering the API calls of GraylogApiService
+ * and serving the pages used by GraylogHelper from recorded fixtures
+ */
+export class MockGraylogServer {
+  private server: http.Server;
+  private catalog: MockCatalog;
+  private fixtures: SearchFixture[];
+  private searches = new Map<string, any>();
+  private jobs = new Map<string, any>();
+  private sessions = new Set<string>();
+
+  constructor(private options: MockGraylogServerOptions = {}) {
+    const fixturesDir = options.fixturesDir || FIXTURES_DIR;
+    this.catalog = loadCatalog(fixturesDir);
+    this.fixtures = loadSearchFixtures(fixturesDir);
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        console.error('Mock Graylog error:', error);
+        this.sendJson(res, 500, { type: 'ApiError', message: String(error?.message || error) });
+      });
+    });
+  }
+
+  /**
+   * Start listening
+   * @returns Base URL of the web interface; the API is served under /api
+   */
+  async start(): Promise<string> {
+    const port = this.options.port ?? parseInt(process.env.GRAYLOG_MOCK_PORT || '9900', 10);
+    await new Promise<void>(resolve => this.server.listen(port, '127.0.0.1', resolve));
+    const address = this.server.address() as { port: number };
+    const url = `http://127.0.0.1:${address.port}`;
+    console.log(`Mock Graylog listening on ${url} (API: ${url}/api, ${this.fixtures.length} search fixtures)`);
+    return url;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve, reject) => this.server.close(error => error ? reject(error) : resolve()));
+  }
+
+  /**
+   * Route a request to the API or the web interface
+   */
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const body = await this.readBody(req);
+
+    if (url.pathname.startsWith('/api/')) {
+      await this.handleApi(req, res, url, body);
+    } else {
+      this.handleWeb(req, res, url, body);
+    }
+  }
+
+  /**
+   * Handle Graylog REST API requests
+   */
+  private async handleApi(req: http.IncomingMessage, res: http.ServerResponse, url: URL, body: string): Promise<void> {
+    const method = req.method || 'GET';
+    const route = url.pathname.slice('/api'.length);
+    let match: RegExpMatchArray | null;
+
+    if (method === 'POST' && route === '/system/sessions') {
+      const credentials = body ? JSON.parse(body) : {};
+      if (!credentials.username || !credentials.password) {
+        return this.sendJson(res, 401, { type: 'ApiError', message: 'Invalid credentials' });
+      }
+      const sessionId = randomUUID();
+      this.sessions.add(sessionId);
+      res.setHeader('Set-Cookie', `${SESSION_COOKIE}=${sessionId}; Path=/; HttpOnly`);
+      return this.sendJson(res, 200, {
+        session_id: sessionId,
+        valid_until: new Date(Date.now() + 8 * 60 * 60 * 1000).toISOString(),
+        username: credentials.username,
+      });
+    }
+
+    if (!this.isAuthenticated(req)) {
+      return this.sendJson(res, 401, { type: 'ApiError', message: 'Not authorized' });
+    }
+
+    if (method === 'GET' && route === '/streams') {
+      return this.sendJson(res, 200, { total: this.catalog.streams.length, streams: this.catalog.streams });
+    }
+
+    if (method === 'GET' && route === '/views') {
+      const page = parseInt(url.searchParams.get('page') || '1', 10);
+      const perPage = parseInt(url.searchParams.get('per_page') || '50', 10);
+      const views = this.catalog.views.slice((page - 1) * perPage, page * perPage);
+      return this.sendJson(res, 200, { total: this.catalog.views.length, page, per_page: perPage, count: views.length, views });
+    }
+
+    if (method === 'POST' && route === '/views/fields') {
+      return this.sendJson(res, 200, this.catalog.fields.map(field => ({
+        name: field.name,
+        type: { type: field.type, properties: [], index_names: [] },
+        streams: [],
+      })));
+    }
+
+    if (method === 'POST' && route === '/views/search') {
+      const search = JSON.parse(body);
+      const id = randomUUID().replace(/-/g, '').slice(0, 24);
+      this.searches.set(id, search);
+      return this.sendJson(res, 201, { id, ...search });
+    }
+
+    if (method === 'POST' && (match = route.match(/^\/views\/search\/([^/]+)\/execute$/))) {
+      const search = this.searches.get(match[1]);
+      if (!search) {
+        return this.sendJson(res, 404, { type: 'ApiError', message: `Search ${match[1]} not found` });
+      }
+      const jobId = randomUUID().replace(/-/g, '').slice(0, 24);
+      this.jobs.set(jobId, {
+        id: jobId,
+        search_id: match[1],
+        owner: 'mock',
+        executing_node: MOCK_NODE,
+        execution: { done: true, cancelled: false, completed_exceptionally: false },
+        results: this.executeSearch(search),
+        errors: [],
+      });
+      // Like Graylog, the job is reported as running first and the results come from the status endpoint
+      return this.sendJson(res, 201, {
+        id: jobId,
+        search_id: match[1],
+        executing_node: MOCK_NODE,
+        execution: { done: false, cancelled: false, completed_exceptionally: false },
+        results: {},
+      });
+    }
+
+    if (method === 'GET' && (match = route.match(/^\/views\/searchjobs\/([^/]+)\/([^/]+)\/status$/))) {
+      const job = this.jobs.get(match[2]);
+      if (!job) {
+        return this.sendJson(res, 404, { type: 'ApiError', message: `Search job ${match[2]} not found` });
+      }
+      return this.sendJson(res, 200, job);
+    }
+
+    if (method === 'DELETE' && (match = route.match(/^\/views\/searchjobs\/([^/]+)\/([^/]+)\/cancel$/))) {
+      this.jobs.delete(match[2]);
+      res.writeHead(204).end();
+      return;
+    }
+
+    this.sendJson(res, 404, { type: 'ApiError', message: `Mock Graylog does not implement ${method} ${route}` });
+  }
+
+  /**
+   * Answer every search type of every query of a search from the fixtures
+   * @param search Search body as created via POST /views/search
+   * @returns Results keyed by query ID
+   */
+  private executeSearch(search: any): Record<string, any> {
+    const results: Record<string, any> = {};
+    for (const query of search.queries || []) {
+      const queryString: string = query.query?.query_string ?? '';
+      const searchTypes: Record<string, any> = {};
+      for (const searchType of query.search_types || []) {
+        searchTypes[searchType.id] = {
+          id: searchType.id,
+          ...this.answerSearchType(queryString, searchType, query.timerange),
+        };
+      }
+      results[query.id] = {
+        query: query,
+        search_types: searchTypes,
+        errors: [],
+        state: 'COMPLETED',
+      };
+    }
+    return results;
+  }
+
+  /**
+   * Answer a single search type
+   * @param query Query string
+   * @param searchType Search type of the request
+   * @param timerange Time range of the query
+   * @returns Search type result
+   */
+  private answerSearchType(query: string, searchType: any, timerange: any): any {
+    const fixture = findSearchFixture(this.fixtures, query, searchType);
+    if (fixture) {
+      return searchType.type === 'messages' ? pageMessages(fixture.result, searchType) : fixture.result;
+    }
+
+    if (searchType.type === 'pivot' && searchType.row_groups?.[0]?.type === 'time' && timerange?.from && timerange?.to) {
+      return synthesizeTimePivot(query, searchType, timerange.from, timerange.to);
+    }
+
+    console.warn(`Mock Graylog: no fixture for ${searchType.type} "${query}", answering with an empty result`);
+    return emptyResult(searchType);
+  }
+
+  /**
+   * Handle requests of the web interface
+   */
+  private handleWeb(req: http.IncomingMessage, res: http.ServerResponse, url: URL, body: string): void {
+    if (req.method === 'POST' && url.pathname === '/login') {
+      const form = new URLSearchParams(body);
+      if (!form.get('username') || !form.get('password')) {
+        return this.sendHtml(res, 401, loginPage(true));
+      }
+      const sessionId = randomUUID();
+      this.sessions.add(sessionId);
+      res.writeHead(302, {
+        'Set-Cookie': `${SESSION_COOKIE}=${sessionId}; Path=/; HttpOnly`,
+        Location: '/',
+      }).end();
+      return;
+    }
+
+    if (!this.getSessionCookie(req)) {
+      return this.sendHtml(res, 200, loginPage());
+    }
+
+    const searchMatch = url.pathname.match(/^\/search\/([^/]+)\/?$/);
+    if (searchMatch) {
+      const view = this.catalog.views.find(item => item.id === searchMatch[1]);
+      if (!view) {
+        return this.sendHtml(res, 404, notFoundPage(`View ${searchMatch[1]} does not exist`));
+      }
+      return this.sendHtml(res, 200, searchPage(view, view.streams || []));
+    }
+
+    if (url.pathname === '/') {
+      return this.sendHtml(res, 200, homePage());
+    }
+
+    this.sendHtml(res, 404, notFoundPage(`Page ${url.pathname} does not exist`));
+  }
+
+  /**
+   * Check the credentials of an API request: any Basic auth, or a session cookie from the web interface
+   */
+  private isAuthenticated(req: http.IncomingMessage): boolean {
+    const authorization = req.headers.authorization || '';
+    if (authorization.startsWith('Basic ')) {
+      const [user, password] = Buffer.from(authorization.slice('Basic '.length), 'base64').toString().split(':');
+      if (password === 'session') return this.sessions.has(user);
+      return Boolean(user && password);
+    }
+    return this.getSessionCookie(req) !== null;
+  }
+
+  /**
+   * Get a valid session ID from the cookie of a request
+   */
+  private getSessionCookie(req: http.IncomingMessage): string | null {
+    const cookie = (req.headers.cookie || '')
+      .split(';')
+      .map(item => item.trim())
+      .find(item => item.startsWith(`${SESSION_COOKIE}=`));
+    const sessionId = cookie?.slice(SESSION_COOKIE.length + 1);
+    return sessionId && this.sessions.has(sessionId) ? sessionId : null;
+  }
+
+  /**
+   * Read the full request body
+   */
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let data = '';
+      req.on('data', chunk => (data += chunk));
+      req.on('end', () => resolve(data));
+      req.on('error', reject);
+    });
+  }
+
+  /**
+   * Send a JSON response
+   */
+  private sendJson(res: http.ServerResponse, status: number, body: any): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  }
+
+  /**
+   * Send an HTML response
+   */
+  private sendHtml(res: http.ServerResponse, status: number, html: string): void {
+    res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' }).end(html);
+  }
+}
+
+// Run as a standalone server: npm run mock:graylog
+if (require.main === module) {
+  const server = new MockGraylogServer();
+  server.start().catch(error => {
+    console.error('Failed to start mock Graylog:', error);
+    process.exit(1);
+  });
+  const shutdown = () => {
+    server.stop().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
@@ -0,0 +1,162 @@
+/**
+ * HTML pages of the mock Graylog web interface
+ * Only the elements used by GraylogHelper are implemented
+ */
+
+/**
+ * Wrap page content in a minimal HTML document
+ * @param title Page title
+ * @param body Body HTML
+ * @returns HTML document
+ */
+function layout(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${title} - Graylog (mock)</title>
+  <style>
+    body { font-family: sans-serif; margin: 0; }
+    nav { background: #333; color: #fff; padding: 8px 16px; }
+    main { padding: 16px; }
+    .hidden { display: none; }
+    textarea { width: 100%; height: 48px; }
+    table { border-collapse: collapse; margin-top: 16px; }
+    td, th { border: 1px solid #ccc; padding: 4px 8px; }
+  </style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+/**
+ * Escape text for use in HTML
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Login page
+ * @param failed Whether the previous login attempt failed
+ * @returns HTML document
+ */
+export function loginPage(failed: boolean = false): string {
+  return layout('Sign in', `
+<main>
+  <form method="post" action="/login">
+    ${failed ? '<div class="alert-danger" role="alert">Invalid credentials, please verify them and retry.</div>' : ''}
+    <input id="username" name="username" type="text" placeholder="Username">
+    <input id="password" name="password" type="password" placeholder="Password">
+    <button type="submit">Sign in</button>
+  </form>
+</main>`);
+}
+
+/**
+ * Start page after login
+ * @returns HTML document
+ */
+export function homePage(): string {
+  return layout('Welcome', `
+<nav>Graylog (mock)</nav>
+<main class="dashboard">Welcome to the mock Graylog.</main>`);
+}
+
+/**
+ * Not found page
+ * @param message Message shown on the page
+ * @returns HTML document
+ */
+export function notFoundPage(message: string): string {
+  return layout('Not found', `
+<nav>Graylog (mock)</nav>
+<main><h1>Not found</h1><p>${escapeHtml(message)}</p></main>`);
+}
+
+/**
+ * Search page of a saved view
+ * Pressing Enter in the query input runs the query through the search API, like the real page does
+ * @param view Saved view
+ * @param streamIds Stream IDs the view searches in
+ * @returns HTML document
+ */
+export function searchPage(view: { id: string; title: string }, streamIds: string[]): string {
+  return layout(view.title, `
+<nav>Graylog (mock) - ${escapeHtml(view.title)}</nav>
+<main class="search-page">
+  <div>
+    <div id="timerange-type-target" role="button">Time range: <span id="timerange-summary">Last 5 minutes</span></div>
+    <div id="timerange-dropdown" class="hidden">
+      <button id="dateTimeTypes-tab-absolute" type="button">Absolute</button>
+      <div id="absolute-time-ranges-heading-timestamp">Timestamp</div>
+      <input id="date-input-timeRangeTabs.absolute.from" type="text" placeholder="From">
+      <input id="date-input-timeRangeTabs.absolute.to" type="text" placeholder="To">
+      <button id="update-time-range" type="button">Update time range</button>
+    </div>
+  </div>
+  <textarea id="search-query" placeholder="Type your search query here and press enter"></textarea>
+  <div data-widget-id="message-count">
+    <div>Message Count</div>
+    <div><span role="presentation">Total</span> <span role="presentation" id="message-count">-</span></div>
+  </div>
+  <table id="search-results"></table>
+</main>
+<script>
+  const streamIds = ${JSON.stringify(streamIds)};
+  let timerange = { type: 'relative', range: 300 };
+
+  document.getElementById('timerange-type-target').addEventListener('click', () => {
+    document.getElementById('timerange-dropdown').classList.remove('hidden');
+  });
+  document.getElementById('update-time-range').addEventListener('click', () => {
+    const from = document.getElementById('date-input-timeRangeTabs.absolute.from').value;
+    const to = document.getElementById('date-input-timeRangeTabs.absolute.to').value;
+    if (from && to) {
+      timerange = { type: 'absolute', from: from.replace(' ', 'T') + '.000Z', to: to.replace(' ', 'T') + '.000Z' };
+      document.getElementById('timerange-summary').textContent = from + ' - ' + to;
+    }
+    document.getElementById('timerange-dropdown').classList.add('hidden');
+  });
+
+  async function api(method, url, body) {
+    const response = await fetch('/api' + url, {
+      method,
+      headers: { 'Content-Type': 'application/json', 'X-Requested-By': 'mock-ui' },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    return response.json();
+  }
+
+  async function runSearch(query) {
+    const search = await api('POST', '/views/search', {
+      queries: [{
+        query: { type: 'elasticsearch', query_string: query },
+        timerange,
+        filter: streamIds.length ? { type: 'or', filters: streamIds.map(id => ({ type: 'stream', id })) } : null,
+        search_types: [{ id: 'count', name: 'count', type: 'pivot', rollup: true, series: [{ id: 'count()', type: 'count' }], row_groups: [], column_groups: [], sort: [] }],
+      }],
+      parameters: [],
+    });
+    let job = await api('POST', '/views/search/' + search.id + '/execute', {});
+    while (!job.execution || !job.execution.done) {
+      await new Promise(resolve => setTimeout(resolve, 200));
+      job = await api('GET', '/views/searchjobs/' + job.executing_node + '/' + job.id + '/status');
+    }
+    const queryResult = Object.values(job.results)[0];
+    const total = queryResult ? queryResult.search_types.count.total : 0;
+    document.getElementById('message-count').textContent = String(total);
+    document.getElementById('search-results').innerHTML = '<tr><th>Query</th><th>Messages</th></tr><tr><td></td><td>' + total + '</td></tr>';
+    document.querySelector('#search-results td').textContent = query;
+  }
+
+  document.getElementById('search-query').addEventListener('keydown', event => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      runSearch(event.target.value);
+    }
+  });
+</script>`);
+}
@@ -7,6 +7,13 @@ import { config } from '../config';
 // Load environment variables
 dotenv.config({ path: path.resolve(process.cwd(), '.env') });
 
+// Content types of the result files, so that browsers and Teams show them inline
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+  '.json': 'application/json',
+};
+
 /**
  * Upload a folder to S3 bucket
  * @param folderPath Path to the folder to upload (relative or absolute)
@@ -81,7 +88,7 @@ export async function uploadFolderToS3(folderPath: string, prefix?: string): Pro
       Bucket: config.s3Bucket,
       Key: s3Key,
       Body: fileContent,
-      ContentType: 'image/png',
+      ContentType: CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream',
       ContentDisposition: 'inline',
     });
 
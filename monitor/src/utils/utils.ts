@@ -85,4 +85,41 @@ export function parseUTCTime(timeStr: string, timezoneOffset: number = 0): strin
   const utcDate = new Date(localDate.getTime() - offsetMs);
   
   return utcDate.toISOString();
-}
\ No newline at end of file
+}
+
+/**
+ * Format a UTC ISO time as local time, the inverse of parseUTCTime
+ * @param isoStr ISO format string (e.g., '2025-11-29T16:00:00.000Z')
+ * @param timezoneOffset Optional timezone offset in hours (e.g., -8 for UTC-8). Defaults to 0 (UTC)
+ * @returns Time string in format 'YYYY-MM-DD HH:mm'
+ */
+export function formatLocalTime(isoStr: string, timezoneOffset: number = 0): string {
+  const localDate = new Date(Date.parse(isoStr) + timezoneOffset * 60 * 60 * 1000);
+  return localDate.toISOString().slice(0, 16).replace('T', ' ');
+}
+
+/**
+ * Map items with an async function, running at most `limit` calls at a time
+ * @param items Items to map
+ * @param limit Maximum number of concurrent calls (at least 1, 1 when not a number)
+ * @param fn Async mapping function
+ * @returns Results in the order of the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  // NaN would start no worker and silently skip every item
+  const workers = Math.max(1, Math.min(Number.isNaN(limit) ? 1 : limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}